@@ -1,22 +1,186 @@
-import React, { useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import SolarSystem from './components/SolarSystem';
 import PlanetHUD from './components/PlanetHUD';
-import { PlanetData } from './types';
-import { Info } from 'lucide-react';
+import TimeControls from './components/TimeControls';
+import ScaleControls from './components/ScaleControls';
+import SettingsPanel from './components/SettingsPanel';
+import TourMenu from './components/TourMenu';
+import TourPlayer from './components/TourPlayer';
+import KeyboardNavigation from './components/KeyboardNavigation';
+import CommandPalette, { PaletteCommand } from './components/CommandPalette';
+import CompareView from './components/CompareView';
+import PersonalPanel from './components/PersonalPanel';
+import OrbitalRelations from './components/OrbitalRelations';
+import SurfacePanel from './components/SurfacePanel';
+import { SimulationClock } from './utils/simulationClock';
+import { ScaleMode } from './utils/scale';
+import { SceneSettings, loadSettings, saveSettings } from './utils/settings';
+import { encodeViewState, hiddenLayersOf, layersFromHidden, parseViewState } from './utils/viewState';
+import { Tour, tourLayersAt } from './utils/tour';
+import { FollowMode, HOME_VIEW, SurfaceAltitude, SurfaceView } from './engine/HeliosEngine';
+import { PLANETS } from './constants';
+import { MetricId } from './utils/metrics';
+import { UnitSystem, loadUnitSystem, saveUnitSystem } from './utils/units';
+import { CameraView, PlanetData, Vector3 } from './types';
+import { Info, Sparkles, BarChart3, User, ScatterChart } from 'lucide-react';
+
+const BODY_IDS = PLANETS.map(p => p.id);
+const findBody = (id: string | null) => PLANETS.find(p => p.id === id) ?? null;
+const REDUCED_MOTION_QUERY = '(prefers-reduced-motion: reduce)';
 
 const App: React.FC = () => {
-  const [selectedPlanet, setSelectedPlanet] = useState<PlanetData | null>(null);
-  const [showIntro, setShowIntro] = useState(true);
+  // A deep link in the URL hash restores selection, camera and layers
+  const [initialView] = useState(() => parseViewState(window.location.hash, BODY_IDS));
+  const [selectedPlanet, setSelectedPlanet] = useState<PlanetData | null>(() => findBody(initialView.body));
+  const [showIntro, setShowIntro] = useState(!initialView.body);
+  const [clock] = useState(() => new SimulationClock());
+  const [scaleMode, setScaleMode] = useState<ScaleMode>('artistic');
+  const [visitorComets, setVisitorComets] = useState(false);
+  const [settings, setSettings] = useState<SceneSettings>(() => {
+    const stored = loadSettings();
+    return initialView.hiddenLayers ? { ...stored, layers: layersFromHidden(initialView.hiddenLayers) } : stored;
+  });
+  const [cameraView, setCameraView] = useState<CameraView | null>(initialView.camera ?? null);
+  const [focusOffset, setFocusOffset] = useState<Vector3 | undefined>();
+  const [tour, setTour] = useState<Tour | null>(null);
+  const [tourIndex, setTourIndex] = useState(0);
+  // ?tour=<url> starts a tour hosted elsewhere, so teachers can share lessons as links
+  const [linkedTourUrl] = useState(() => new URLSearchParams(window.location.search).get('tour'));
+  const [keyboardFocusId, setKeyboardFocusId] = useState<string | null>(null);
+  const [compare, setCompare] = useState<{ ids: string[]; metric?: MetricId } | null>(null);
+  const [units, setUnits] = useState<UnitSystem>(loadUnitSystem);
+  const [followMode, setFollowMode] = useState<FollowMode>('heliocentric');
+  const [surfaceView, setSurfaceView] = useState<SurfaceView | null>(null);
+  const [showPersonal, setShowPersonal] = useState(false);
+  const [showRelations, setShowRelations] = useState(false);
+  const [reducedMotion, setReducedMotion] = useState(() => window.matchMedia(REDUCED_MOTION_QUERY).matches);
+
+  // What the current history entry records, so only real changes push new entries
+  const linkedBodyRef = useRef<string | null>(initialView.body);
+  const linkedCameraRef = useRef<CameraView | undefined>(initialView.camera);
+
+  useEffect(() => saveSettings(settings), [settings]);
+  useEffect(() => saveUnitSystem(units), [units]);
+
+  // Follow the OS setting live, so toggling it doesn't need a reload
+  useEffect(() => {
+    const query = window.matchMedia(REDUCED_MOTION_QUERY);
+    const handleChange = (e: MediaQueryListEvent) => setReducedMotion(e.matches);
+    query.addEventListener('change', handleChange);
+    return () => query.removeEventListener('change', handleChange);
+  }, []);
+
+  const writeHash = (mode: 'push' | 'replace') => {
+    const hash = encodeViewState({
+      body: linkedBodyRef.current,
+      camera: linkedCameraRef.current,
+      hiddenLayers: hiddenLayersOf(settings.layers),
+    });
+    if (hash === window.location.hash) return;
+    // An empty hash can't be written as '', which would keep the old one
+    const url = hash || window.location.pathname + window.location.search;
+    if (mode === 'push') window.history.pushState(null, '', url);
+    else window.history.replaceState(null, '', url);
+  };
 
-  const handlePlanetSelect = (planet: PlanetData) => {
+  // Each new selection is a history entry; its camera is filled in once the flight settles
+  useEffect(() => {
+    const id = selectedPlanet?.id ?? null;
+    if (id === linkedBodyRef.current) return;
+    linkedBodyRef.current = id;
+    linkedCameraRef.current = undefined;
+    writeHash('push');
+  }, [selectedPlanet]);
+
+  useEffect(() => writeHash('replace'), [settings.layers]);
+
+  const handleCameraChange = (view: CameraView) => {
+    linkedCameraRef.current = view;
+    writeHash('replace');
+  };
+
+  // Back/forward (and hand-edited hashes) restore the recorded view
+  useEffect(() => {
+    const handlePopState = () => {
+      const view = parseViewState(window.location.hash, BODY_IDS);
+      linkedBodyRef.current = view.body;
+      linkedCameraRef.current = view.camera;
+      setSelectedPlanet(findBody(view.body));
+      if (view.camera) setCameraView(view.camera);
+      if (view.hiddenLayers) {
+        const layers = layersFromHidden(view.hiddenLayers);
+        setSettings(s => ({ ...s, layers }));
+      }
+    };
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  const handlePlanetSelect = useCallback((planet: PlanetData) => {
     setSelectedPlanet(planet);
+    setFocusOffset(undefined);
     setShowIntro(false);
+  }, []);
+
+  const handleStartTour = (next: Tour) => {
+    setSurfaceView(null);
+    setTour(next);
+    setTourIndex(0);
+    setShowIntro(false);
+  };
+
+  const handleEndTour = () => {
+    setTour(null);
+    setFocusOffset(undefined);
   };
 
+  // Each tour step frames its body, or returns to the overview
+  useEffect(() => {
+    if (!tour) return;
+    const step = tour.steps[tourIndex];
+    setSelectedPlanet(findBody(step.body));
+    setFocusOffset(step.cameraOffset);
+    if (!step.body) setCameraView({ ...HOME_VIEW });
+  }, [tour, tourIndex]);
+
+  // Tour layer overrides sit on top of the viewer's own settings without replacing them
+  const sceneSettings: SceneSettings = tour
+    ? { ...settings, layers: { ...settings.layers, ...tourLayersAt(tour, tourIndex) } }
+    : settings;
+
   const handleCloseHUD = () => {
     setSelectedPlanet(null);
   };
 
+  // The full-screen view starts from the planets, plus the selected body if it isn't one
+  const handleOpenCompare = (planet?: PlanetData, metric?: MetricId) => {
+    const planets = PLANETS.filter(p => p.kind === 'planet').map(p => p.id);
+    setCompare({ ids: planet && !planets.includes(planet.id) ? [...planets, planet.id] : planets, metric });
+  };
+  const handleCloseCompare = useCallback(() => setCompare(null), []);
+
+  const handleViewSky = (planet: PlanetData) => setSurfaceView({ bodyId: planet.id, altitude: 'ground' });
+  const handleSurfaceAltitude = (altitude: SurfaceAltitude) => setSurfaceView(v => v && { ...v, altitude });
+  const handleCloseSurface = useCallback(() => setSurfaceView(null), []);
+
+  // The reset button, the R key and the palette all return to the overview this way,
+  // so the selection, the camera and the link agree afterwards
+  const handleResetView = useCallback(() => {
+    setSurfaceView(null);
+    setSelectedPlanet(null);
+    setCameraView({ ...HOME_VIEW });
+  }, []);
+
+  const paletteCommands = useMemo<PaletteCommand[]>(() => [
+    { id: 'reset-view', label: 'Reset view', run: handleResetView },
+    {
+      id: 'toggle-orbits',
+      label: 'Toggle orbits',
+      run: () => setSettings(s => ({ ...s, layers: { ...s.layers, orbits: !s.layers.orbits } })),
+    },
+    { id: 'toggle-labels', label: 'Toggle labels', run: () => setSettings(s => ({ ...s, allLabels: !s.allLabels })) },
+  ], []);
+
   return (
     <div className="relative w-full h-screen bg-black overflow-hidden font-sans text-white">
       {/* 3D Canvas */}
@@ -24,24 +188,37 @@ const App: React.FC = () => {
         <SolarSystem 
           onPlanetSelect={handlePlanetSelect} 
           selectedPlanetId={selectedPlanet?.id || null} 
+          focusOffset={focusOffset}
+          clock={clock}
+          scaleMode={scaleMode}
+          visitorComets={visitorComets}
+          settings={sceneSettings}
+          cameraView={cameraView}
+          onCameraChange={handleCameraChange}
+          onResetView={handleResetView}
+          keyboardFocusId={keyboardFocusId}
+          reducedMotion={reducedMotion}
+          followMode={followMode}
+          surfaceView={surfaceView}
         />
       </div>
 
       {/* Intro Overlay */}
       {showIntro && (
-        <div className="absolute bottom-10 left-10 max-w-sm pointer-events-none z-10 animate-pulse">
+        <div className="absolute bottom-10 left-10 max-w-sm pointer-events-none z-10 motion-safe:animate-pulse">
            <h1 className="text-4xl font-black text-transparent bg-clip-text bg-gradient-to-r from-blue-400 to-purple-600 mb-2">
             HELIOS 3D
           </h1>
           <p className="text-gray-400 text-sm">
             Interactive WebGL Solar System. <br/>
-            Drag to rotate. Scroll to zoom. Click a planet to investigate.
+            Drag to rotate. Scroll to zoom. Click a planet to investigate. <br/>
+            Keyboard: arrows pick a body, Enter focuses, Esc closes, WASD orbit, Q/E zoom, R resets, Ctrl+K searches.
           </p>
         </div>
       )}
 
       {/* Info Button (Top Left) */}
-      <div className="absolute top-4 left-4 z-10">
+      <div className="absolute top-4 left-4 z-10 flex flex-col items-start gap-2">
         <button 
           className="flex items-center gap-2 px-4 py-2 bg-white/10 backdrop-blur-md rounded-full hover:bg-white/20 transition-all border border-white/10"
           onClick={() => setShowIntro(!showIntro)}
@@ -49,10 +226,103 @@ const App: React.FC = () => {
           <Info size={16} />
           <span className="text-xs font-bold tracking-widest">CONTROLS</span>
         </button>
+        <ScaleControls mode={scaleMode} onChange={setScaleMode} />
+        <button 
+          className={`flex items-center gap-2 px-4 py-2 backdrop-blur-md rounded-full transition-all border border-white/10 ${visitorComets ? 'bg-blue-500/40' : 'bg-white/10 hover:bg-white/20'}`}
+          onClick={() => setVisitorComets(!visitorComets)}
+          aria-pressed={visitorComets}
+          title="Occasional random comets passing through"
+        >
+          <Sparkles size={16} />
+          <span className="text-xs font-bold tracking-widest">VISITORS</span>
+        </button>
+        <SettingsPanel settings={settings} onChange={setSettings} />
+        <TourMenu onStart={handleStartTour} linkedUrl={linkedTourUrl} />
+        <button
+          className="flex items-center gap-2 px-4 py-2 bg-white/10 backdrop-blur-md rounded-full hover:bg-white/20 transition-all border border-white/10"
+          onClick={() => handleOpenCompare()}
+          title="Compare bodies side by side"
+        >
+          <BarChart3 size={16} />
+          <span className="text-xs font-bold tracking-widest">COMPARE</span>
+        </button>
+        <button
+          className={`flex items-center gap-2 px-4 py-2 backdrop-blur-md rounded-full transition-all border border-white/10 ${showPersonal ? 'bg-blue-500/40' : 'bg-white/10 hover:bg-white/20'}`}
+          onClick={() => setShowPersonal(!showPersonal)}
+          aria-pressed={showPersonal}
+          title="Your weight, age and jump height on other worlds"
+        >
+          <User size={16} />
+          <span className="text-xs font-bold tracking-widest">YOU</span>
+        </button>
+        <button
+          className={`flex items-center gap-2 px-4 py-2 backdrop-blur-md rounded-full transition-all border border-white/10 ${showRelations ? 'bg-blue-500/40' : 'bg-white/10 hover:bg-white/20'}`}
+          onClick={() => setShowRelations(!showRelations)}
+          aria-pressed={showRelations}
+          title="Kepler's third law and other orbital relations"
+        >
+          <ScatterChart size={16} />
+          <span className="text-xs font-bold tracking-widest">RELATIONS</span>
+        </button>
+        <CommandPalette commands={paletteCommands} onSelectBody={handlePlanetSelect} />
       </div>
 
+      <KeyboardNavigation
+        focusedId={keyboardFocusId}
+        selectedId={selectedPlanet?.id ?? null}
+        onFocusChange={setKeyboardFocusId}
+        onSelect={handlePlanetSelect}
+        onClose={handleCloseHUD}
+        units={units}
+      />
+
+      {/* Guided Tour */}
+      {tour && (
+        <TourPlayer tour={tour} index={tourIndex} onIndexChange={setTourIndex} onClose={handleEndTour} />
+      )}
+
+      {/* Simulation Time */}
+      <TimeControls clock={clock} />
+
       {/* Planet HUD */}
-      <PlanetHUD planet={selectedPlanet} onClose={handleCloseHUD} />
+      <PlanetHUD
+        planet={selectedPlanet}
+        onClose={handleCloseHUD}
+        onCompare={handleOpenCompare}
+        units={units}
+        onUnitsChange={setUnits}
+        followMode={followMode}
+        onFollowModeChange={setFollowMode}
+        onViewSky={handleViewSky}
+      />
+
+      {/* Surface View */}
+      {surfaceView && (
+        <SurfacePanel
+          view={surfaceView}
+          clock={clock}
+          units={units}
+          onAltitudeChange={handleSurfaceAltitude}
+          onClose={handleCloseSurface}
+        />
+      )}
+
+      {/* Personal Calculator */}
+      {showPersonal && (
+        <PersonalPanel units={units} onUnitsChange={setUnits} besideHud={selectedPlanet !== null} onClose={() => setShowPersonal(false)} />
+      )}
+
+      {/* Orbital Relations */}
+      {showRelations && (
+        <OrbitalRelations
+          selectedId={selectedPlanet?.id ?? null}
+          onSelect={handlePlanetSelect}
+          onClose={() => setShowRelations(false)}
+        />
+      )}
+
+      {/* Full-screen Compare */}
+      {compare && <CompareView initialIds={compare.ids} initialMetric={compare.metric} units={units} onClose={handleCloseCompare} />}
       
       {/* Signature */}
       <div className="absolute bottom-4 right-4 text-xs text-gray-600 z-0 pointer-events-none">
@@ -0,0 +1,33 @@
+import React from 'react';
+import { METRICS, MetricId } from '../utils/metrics';
+import { AxisScale } from './ComparisonChart';
+import ToggleGroup from './ToggleGroup';
+
+interface ChartControlsProps {
+  metric: MetricId;
+  scale: AxisScale;
+  onMetricChange: (metric: MetricId) => void;
+  onScaleChange: (scale: AxisScale) => void;
+}
+
+export const AXIS_SCALES: { id: AxisScale; label: string }[] = [
+  { id: 'linear', label: 'LINEAR' },
+  { id: 'log', label: 'LOG' },
+];
+
+/** Metric picker and linear/log switch shared by the HUD chart and the compare view. */
+const ChartControls: React.FC<ChartControlsProps> = ({ metric, scale, onMetricChange, onScaleChange }) => (
+  <div className="flex items-center gap-2 font-mono text-xs">
+    <select
+      className="flex-1 min-w-0 bg-gray-900 border border-white/20 rounded px-2 py-1 outline-none"
+      value={metric}
+      onChange={(e) => onMetricChange(e.target.value as MetricId)}
+      aria-label="Metric"
+    >
+      {METRICS.map(m => <option key={m.id} value={m.id}>{m.label}</option>)}
+    </select>
+    <ToggleGroup options={AXIS_SCALES} value={scale} onChange={onScaleChange} label="Axis scale" />
+  </div>
+);
+
+export default ChartControls;
@@ -0,0 +1,179 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { PLANETS, bodyKindLabel } from '../constants';
+import { PlanetData } from '../types';
+import { fuzzySearch } from '../utils/search';
+import { Search, CornerDownLeft } from 'lucide-react';
+
+export interface PaletteCommand {
+  id: string;
+  label: string;
+  run: () => void;
+}
+
+interface CommandPaletteProps {
+  commands: PaletteCommand[];
+  onSelectBody: (planet: PlanetData) => void;
+}
+
+interface PaletteItem {
+  key: string;
+  label: string;
+  hint: string;
+  keywords: string[];
+  run: () => void;
+}
+
+/**
+ * Ctrl+K (Cmd+K on macOS) search over every body in the catalog and a few
+ * scene commands. Small bodies are far easier to reach here than by clicking.
+ */
+const CommandPalette: React.FC<CommandPaletteProps> = ({ commands, onSelectBody }) => {
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [active, setActive] = useState(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const returnFocusRef = useRef<HTMLElement | null>(null);
+
+  const items = useMemo<PaletteItem[]>(() => [
+    ...commands.map(command => ({
+      key: `command:${command.id}`,
+      label: command.label,
+      hint: 'Command',
+      keywords: [command.label, command.id],
+      run: command.run,
+    })),
+    ...PLANETS.map(body => ({
+      key: `body:${body.id}`,
+      label: body.name,
+      hint: bodyKindLabel(body),
+      keywords: [body.name, body.id],
+      run: () => onSelectBody(body),
+    })),
+  ], [commands, onSelectBody]);
+
+  const results = useMemo(() => fuzzySearch<PaletteItem>(items, query, item => item.keywords), [items, query]);
+
+  const show = () => {
+    returnFocusRef.current = document.activeElement instanceof HTMLElement ? document.activeElement : null;
+    setQuery('');
+    setActive(0);
+    setOpen(true);
+  };
+
+  const hide = () => {
+    setOpen(false);
+    returnFocusRef.current?.focus();
+  };
+
+  const run = (item: PaletteItem | undefined) => {
+    if (!item) return;
+    hide();
+    item.run();
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault(); // Browsers bind Ctrl+K to the address bar search
+        if (open) hide();
+        else show();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [open]);
+
+  useEffect(() => {
+    if (open) inputRef.current?.focus();
+  }, [open]);
+
+  // Keep the highlighted row in view while arrowing through a long list
+  useEffect(() => {
+    document.getElementById(`palette-item-${active}`)?.scrollIntoView({ block: 'nearest' });
+  }, [active]);
+
+  const handleInputKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      if (results.length > 0) setActive((active + step + results.length) % results.length);
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      run(results[active]);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      hide();
+    }
+  };
+
+  return (
+    <>
+      <button
+        className="flex items-center gap-2 px-4 py-2 bg-white/10 backdrop-blur-md rounded-full hover:bg-white/20 transition-all border border-white/10"
+        onClick={show}
+        title="Search bodies and commands (Ctrl+K)"
+      >
+        <Search size={16} />
+        <span className="text-xs font-bold tracking-widest">SEARCH</span>
+      </button>
+
+      {/* Portalled out of the toolbar's stacking context so it covers the HUD too */}
+      {open && createPortal(
+        <div className="fixed inset-0 z-50 flex justify-center items-start pt-[15vh] bg-black/40" onMouseDown={hide}>
+          <div
+            className="w-[28rem] max-w-[90vw] bg-black/80 backdrop-blur-md rounded-xl border border-white/10 font-mono text-xs overflow-hidden"
+            role="dialog"
+            aria-modal="true"
+            aria-label="Command palette"
+            onMouseDown={(e) => e.stopPropagation()}
+          >
+            <div className="flex items-center gap-2 px-4 py-3 border-b border-white/10">
+              <Search size={14} className="text-gray-400 shrink-0" />
+              <input
+                ref={inputRef}
+                className="flex-1 bg-transparent outline-none text-sm"
+                placeholder="Jump to a body or run a command…"
+                value={query}
+                onChange={(e) => {
+                  setQuery(e.target.value);
+                  setActive(0);
+                }}
+                onKeyDown={handleInputKeyDown}
+                role="combobox"
+                aria-expanded="true"
+                aria-controls="palette-results"
+                aria-activedescendant={results.length > 0 ? `palette-item-${active}` : undefined}
+              />
+              <kbd className="text-gray-500">ESC</kbd>
+            </div>
+
+            <ul id="palette-results" className="max-h-80 overflow-y-auto py-1" role="listbox">
+              {results.map((item, i) => (
+                <li
+                  key={item.key}
+                  id={`palette-item-${i}`}
+                  className={`flex items-center justify-between px-4 py-2 cursor-pointer ${i === active ? 'bg-blue-500/40' : 'hover:bg-white/10'}`}
+                  role="option"
+                  aria-selected={i === active}
+                  onMouseMove={() => setActive(i)}
+                  onClick={() => run(item)}
+                >
+                  <span className="font-bold text-blue-300">{item.label}</span>
+                  <span className="flex items-center gap-2 text-gray-400">
+                    {item.hint}
+                    {i === active && <CornerDownLeft size={12} />}
+                  </span>
+                </li>
+              ))}
+              {results.length === 0 && <li className="px-4 py-2 text-gray-400">No matches</li>}
+            </ul>
+          </div>
+        </div>,
+        document.body
+      )}
+    </>
+  );
+};
+
+export default CommandPalette;
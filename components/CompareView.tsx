@@ -0,0 +1,175 @@
+import React, { useEffect, useLayoutEffect, useRef, useState } from 'react';
+import { PLANETS } from '../constants';
+import { BodyKind, PlanetData } from '../types';
+import { METRICS, MetricId, formatMetricValue, metricUnit } from '../utils/metrics';
+import { UnitSystem } from '../utils/units';
+import ComparisonChart, { AxisScale } from './ComparisonChart';
+import ChartControls from './ChartControls';
+import { X, ArrowUp, ArrowDown } from 'lucide-react';
+
+interface CompareViewProps {
+  initialIds: string[];
+  initialMetric?: MetricId;
+  units: UnitSystem;
+  onClose: () => void;
+}
+
+type SortKey = 'name' | MetricId;
+
+const GROUPS: { kind: BodyKind; label: string }[] = [
+  { kind: 'star', label: 'STAR' },
+  { kind: 'planet', label: 'PLANETS' },
+  { kind: 'dwarf', label: 'DWARF PLANETS' },
+  { kind: 'moon', label: 'MOONS' },
+  { kind: 'comet', label: 'COMETS' },
+];
+
+// Unknown values sort last whichever way the column is ordered
+const compareValues = (a: number | string | null, b: number | string | null, direction: 1 | -1) => {
+  if (a === null || b === null) return a === b ? 0 : a === null ? 1 : -1;
+  return (a < b ? -1 : a > b ? 1 : 0) * direction;
+};
+
+/** Full-screen comparison of any set of bodies: one metric charted, every metric tabulated. */
+const CompareView: React.FC<CompareViewProps> = ({ initialIds, initialMetric = 'radius', units, onClose }) => {
+  const [ids, setIds] = useState<string[]>(initialIds);
+  const [metric, setMetric] = useState<MetricId>(initialMetric);
+  const [scale, setScale] = useState<AxisScale>('log');
+  const [sort, setSort] = useState<{ key: SortKey; direction: 1 | -1 } | null>(null);
+  const chartRef = useRef<HTMLDivElement>(null);
+  const [chartWidth, setChartWidth] = useState(600);
+
+  useLayoutEffect(() => {
+    const element = chartRef.current;
+    if (!element) return;
+    const observer = new ResizeObserver(() => setChartWidth(element.clientWidth));
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  // Escape closes this view only, not the HUD underneath it
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== 'Escape') return;
+      e.stopPropagation();
+      onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [onClose]);
+
+  const selected = PLANETS.filter(p => ids.includes(p.id));
+  const valueOf = (body: PlanetData, key: SortKey) =>
+    key === 'name' ? body.name : METRICS.find(m => m.id === key)!.value(body);
+  const rows = sort
+    ? [...selected].sort((a, b) => compareValues(valueOf(a, sort.key), valueOf(b, sort.key), sort.direction))
+    : selected;
+
+  const toggleBody = (id: string) =>
+    setIds(ids.includes(id) ? ids.filter(i => i !== id) : [...ids, id]);
+
+  const toggleGroup = (kind: BodyKind) => {
+    const members = PLANETS.filter(p => p.kind === kind).map(p => p.id);
+    const allSelected = members.every(id => ids.includes(id));
+    setIds(allSelected ? ids.filter(id => !members.includes(id)) : [...new Set([...ids, ...members])]);
+  };
+
+  // Clicking a column sorts by it, then reverses; a metric column is also charted
+  const handleSort = (key: SortKey) => {
+    setSort(sort?.key === key ? { key, direction: sort.direction === 1 ? -1 : 1 } : { key, direction: key === 'name' ? 1 : -1 });
+    if (key !== 'name') setMetric(key);
+  };
+
+  const sortIcon = (key: SortKey) =>
+    sort?.key === key ? (sort.direction === 1 ? <ArrowUp size={10} /> : <ArrowDown size={10} />) : null;
+
+  return (
+    <div
+      className="absolute inset-0 z-40 flex bg-black/90 backdrop-blur-md text-white font-mono text-xs"
+      role="dialog"
+      aria-modal="true"
+      aria-label="Compare bodies"
+    >
+      <aside className="w-56 shrink-0 p-4 border-r border-white/10 overflow-y-auto">
+        <h2 className="text-gray-400 tracking-widest mb-4">BODIES</h2>
+        {GROUPS.map(({ kind, label }) => (
+          <div key={kind} className="mb-4">
+            <button className="text-gray-400 tracking-widest mb-1 hover:text-blue-300" onClick={() => toggleGroup(kind)} title="Select or clear the whole group">
+              {label}
+            </button>
+            <div className="flex flex-col gap-1">
+              {PLANETS.filter(p => p.kind === kind).map(body => (
+                <label key={body.id} className="flex items-center gap-2 cursor-pointer hover:text-blue-300">
+                  <input
+                    type="checkbox"
+                    className="accent-blue-500"
+                    checked={ids.includes(body.id)}
+                    onChange={() => toggleBody(body.id)}
+                  />
+                  <span className="w-2 h-2 rounded-full" style={{ backgroundColor: body.color }} />
+                  {body.name}
+                </label>
+              ))}
+            </div>
+          </div>
+        ))}
+      </aside>
+
+      <main className="flex-1 min-w-0 flex flex-col p-6 gap-4 overflow-y-auto">
+        <div className="flex items-center gap-4">
+          <h1 className="text-lg font-bold tracking-widest">COMPARE</h1>
+          <div className="w-80">
+            <ChartControls metric={metric} scale={scale} onMetricChange={setMetric} onScaleChange={setScale} />
+          </div>
+          <button className="ml-auto p-1 text-gray-400 hover:text-white transition-colors" onClick={onClose} aria-label="Close compare view">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div ref={chartRef} className="p-2 bg-gray-900/50 rounded-lg border border-gray-700">
+          {rows.length > 0
+            ? <ComparisonChart bodies={rows} metric={metric} units={units} scale={scale} width={chartWidth - 16} height={340} />
+            : <p className="p-8 text-center text-gray-400">Pick some bodies to compare.</p>}
+        </div>
+
+        {rows.length > 0 && (
+          <table className="w-full border-collapse">
+            <thead>
+              <tr className="text-gray-400 tracking-widest">
+                {[{ id: 'name' as SortKey, label: 'Body', unit: '' }, ...METRICS.map(m => ({ ...m, unit: metricUnit(m, units) }))].map(column => (
+                  <th
+                    key={column.id}
+                    className={`p-2 border-b border-white/10 font-normal ${column.id === 'name' ? 'text-left' : 'text-right'} ${column.id === metric ? 'text-blue-300' : ''}`}
+                    aria-sort={sort?.key === column.id ? (sort.direction === 1 ? 'ascending' : 'descending') : 'none'}
+                  >
+                    <button className="inline-flex items-center gap-1 hover:text-white" onClick={() => handleSort(column.id)}>
+                      {column.label}{column.unit && <span className="text-gray-500">({column.unit})</span>}
+                      {sortIcon(column.id)}
+                    </button>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(body => (
+                <tr key={body.id} className="hover:bg-white/5">
+                  <td className="p-2 border-b border-white/5">
+                    <span className="inline-block w-2 h-2 mr-2 rounded-full" style={{ backgroundColor: body.color }} />
+                    {body.name}
+                  </td>
+                  {METRICS.map(m => (
+                    <td key={m.id} className={`p-2 border-b border-white/5 text-right ${m.id === metric ? 'text-blue-300' : ''}`}>
+                      {formatMetricValue(m, body, units)}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default CompareView;
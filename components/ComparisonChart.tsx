@@ -1,33 +1,58 @@
 import React, { useEffect, useRef } from 'react';
 import * as d3 from 'd3';
 import { PlanetData } from '../types';
+import { MetricId, findMetric, formatMetricValue, metricUnit, metricValue } from '../utils/metrics';
+import { UnitSystem } from '../utils/units';
+
+export type AxisScale = 'linear' | 'log';
 
 interface ComparisonChartProps {
-  planet: PlanetData;
+  bodies: PlanetData[];
+  metric: MetricId;
+  units: UnitSystem;
+  scale?: AxisScale;
+  width?: number;
+  height?: number;
+}
+
+// One bar: a body's value for the metric in the display unit, null where the catalog has none
+interface ChartRow {
+  name: string;
+  value: number | null;
+  label: string; // The value as the compare table shows it
+  color: string;
 }
 
-const ComparisonChart: React.FC<ComparisonChartProps> = ({ planet }) => {
+const ComparisonChart: React.FC<ComparisonChartProps> = ({ bodies, metric: metricId, units, scale = 'linear', width: outerWidth = 250, height: outerHeight = 150 }) => {
   const svgRef = useRef<SVGSVGElement>(null);
 
   useEffect(() => {
     if (!svgRef.current) return;
 
-    const earthGravity = 9.8;
-    const data = [
-      { name: 'Earth', value: earthGravity, color: '#3b82f6' },
-      { name: planet.name, value: planet.details.gravity, color: planet.color }
-    ];
-
-    const margin = { top: 20, right: 20, bottom: 30, left: 40 };
-    const width = 250 - margin.left - margin.right;
-    const height = 150 - margin.top - margin.bottom;
+    const metric = findMetric(metricId);
+    const unit = metricUnit(metric, units);
+    const data: ChartRow[] = bodies.map(body => ({
+      name: body.name,
+      value: metricValue(metric, body, units),
+      label: formatMetricValue(metric, body, units),
+      color: body.color,
+    }));
+    // A log axis can't place zero or negative values; those bars read "n/a" instead
+    const plottable = (value: number | null): value is number => value !== null && (scale === 'linear' || value > 0);
+    const values = data.map(d => d.value).filter(plottable);
+
+    // Long name lists are slanted so they don't overlap
+    const slanted = bodies.length > 6;
+    const margin = { top: 20, right: 20, bottom: slanted ? 50 : 30, left: 50 };
+    const width = outerWidth - margin.left - margin.right;
+    const height = outerHeight - margin.top - margin.bottom;
 
     const svg = d3.select(svgRef.current);
     svg.selectAll("*").remove(); // Clear previous
 
     const g = svg
-      .attr("width", width + margin.left + margin.right)
-      .attr("height", height + margin.top + margin.bottom)
+      .attr("width", outerWidth)
+      .attr("height", outerHeight)
       .append("g")
       .attr("transform", `translate(${margin.left},${margin.top})`);
 
@@ -36,62 +61,76 @@ const ComparisonChart: React.FC<ComparisonChartProps> = ({ planet }) => {
       .padding(0.4)
       .domain(data.map(d => d.name));
 
-    const y = d3.scaleLinear()
-      .range([height, 0])
-      .domain([0, Math.max(earthGravity, planet.details.gravity) * 1.2]);
+    const max = d3.max(values) ?? 1;
+    const y = scale === 'log'
+      ? d3.scaleLog().range([height, 0]).domain([(d3.min(values) ?? 1) / 2, max * 2]).clamp(true)
+      : d3.scaleLinear().range([height, 0]).domain([Math.min(0, d3.min(values) ?? 0), max * 1.2 || 1]);
+    const baseline = scale === 'log' ? height : y(0);
 
     // X Axis
-    g.append("g")
+    const xAxis = g.append("g")
       .attr("transform", `translate(0,${height})`)
-      .call(d3.axisBottom(x))
-      .selectAll("text")
+      .call(d3.axisBottom(x));
+    xAxis.selectAll("text")
       .attr("fill", "#9ca3af")
       .style("font-size", "10px");
-
-    g.select(".domain").attr("stroke", "#4b5563");
-    g.selectAll("line").attr("stroke", "#4b5563");
+    if (slanted) {
+      xAxis.selectAll("text")
+        .attr("transform", "rotate(-35)")
+        .style("text-anchor", "end");
+    }
 
     // Y Axis
     g.append("g")
-      .call(d3.axisLeft(y).ticks(5))
+      .call(d3.axisLeft(y).ticks(5, "~g"))
       .selectAll("text")
       .attr("fill", "#9ca3af")
       .style("font-size", "10px");
-      
-    g.select(".domain").attr("stroke", "#4b5563");
+
+    g.selectAll(".domain").attr("stroke", "#4b5563");
     g.selectAll("line").attr("stroke", "#4b5563");
 
     // Bars
     g.selectAll(".bar")
-      .data(data)
+      .data(data.filter(d => plottable(d.value)))
       .enter().append("rect")
       .attr("class", "bar")
       .attr("x", d => x(d.name) || 0)
-      .attr("y", height) // Start at bottom for animation
+      .attr("y", baseline) // Start at the baseline for animation
       .attr("width", x.bandwidth())
-      .attr("height", 0) // Start height 0
+      .attr("height", 0)
       .attr("fill", d => d.color)
       .transition()
       .duration(750)
-      .attr("y", d => y(d.value))
-      .attr("height", d => height - y(d.value));
+      .attr("y", d => Math.min(y(d.value!), baseline))
+      .attr("height", d => Math.abs(baseline - y(d.value!)));
+
+    g.selectAll(".missing")
+      .data(data.filter(d => !plottable(d.value)))
+      .enter().append("text")
+      .attr("class", "missing")
+      .attr("x", d => (x(d.name) || 0) + x.bandwidth() / 2)
+      .attr("y", height - 4)
+      .attr("text-anchor", "middle")
+      .style("font-size", "9px")
+      .style("fill", "#6b7280")
+      .text("n/a");
+
+    // Hover readout
+    g.selectAll<SVGRectElement, ChartRow>(".bar").append("title").text(d => `${d.name}: ${d.label}${unit && unit !== '°' ? ` ${unit}` : unit}`);
 
     // Title
     svg.append("text")
-      .attr("x", (width + margin.left + margin.right) / 2)
+      .attr("x", outerWidth / 2)
       .attr("y", 15)
       .attr("text-anchor", "middle")
       .style("font-size", "12px")
       .style("fill", "#e5e7eb")
-      .text("Gravity Comparison (m/s²)");
+      .text(`${metric.label}${unit ? ` (${unit})` : ''}${scale === 'log' ? ', log scale' : ''}`);
 
-  }, [planet]);
+  }, [bodies, metricId, units, scale, outerWidth, outerHeight]);
 
-  return (
-    <div className="mt-4 p-2 bg-gray-900/50 rounded-lg border border-gray-700">
-      <svg ref={svgRef}></svg>
-    </div>
-  );
+  return <svg ref={svgRef}></svg>;
 };
 
 export default ComparisonChart;
@@ -0,0 +1,73 @@
+import React, { useEffect, useState } from 'react';
+import { PLANETS, describeBody, describeBodyStats } from '../constants';
+import { PlanetData } from '../types';
+import { isEditableTarget, isInteractiveTarget } from '../utils/keyboard';
+import { UnitSystem } from '../utils/units';
+
+interface KeyboardNavigationProps {
+  focusedId: string | null; // Body under the keyboard cursor
+  selectedId: string | null;
+  onFocusChange: (id: string | null) => void;
+  onSelect: (planet: PlanetData) => void;
+  onClose: () => void;
+  units: UnitSystem; // Figures are read out in the same units as the HUD
+}
+
+/**
+ * Arrow keys step through the catalog, Enter focuses the highlighted body and
+ * Escape closes its details. A polite live region reads out each change, with
+ * the body's key figures.
+ */
+const KeyboardNavigation: React.FC<KeyboardNavigationProps> = ({ focusedId, selectedId, onFocusChange, onSelect, onClose, units }) => {
+  const [announcement, setAnnouncement] = useState('');
+
+  // "Mars, planet: radius 3,390 km, …"
+  const describe = (body: PlanetData) => `${describeBody(body)}: ${describeBodyStats(body, units)}`;
+
+  // Clicks and tours change the selection too; announce those as well
+  useEffect(() => {
+    const body = PLANETS.find(p => p.id === selectedId);
+    if (body) setAnnouncement(`Focused on ${describe(body)}.`);
+  }, [selectedId]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey || isEditableTarget(e.target)) return;
+
+      if (e.key === 'ArrowRight' || e.key === 'ArrowDown' || e.key === 'ArrowLeft' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowRight' || e.key === 'ArrowDown' ? 1 : -1;
+        const current = PLANETS.findIndex(p => p.id === (focusedId ?? selectedId));
+        const next = current === -1
+          ? (step > 0 ? 0 : PLANETS.length - 1)
+          : (current + step + PLANETS.length) % PLANETS.length;
+        const body = PLANETS[next];
+        onFocusChange(body.id);
+        setAnnouncement(`${describe(body)}. Press Enter to focus.`);
+      } else if (e.key === 'Enter' && focusedId && !isInteractiveTarget(e.target)) {
+        const body = PLANETS.find(p => p.id === focusedId);
+        if (!body) return;
+        e.preventDefault();
+        onFocusChange(null);
+        onSelect(body);
+        setAnnouncement(`Focused on ${describe(body)}.`);
+      } else if (e.key === 'Escape') {
+        onFocusChange(null);
+        if (selectedId) {
+          onClose();
+          setAnnouncement('Details closed.');
+        }
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [focusedId, selectedId, onFocusChange, onSelect, onClose, units]);
+
+  return (
+    <div className="sr-only" role="status" aria-live="polite" aria-atomic="true">
+      {announcement}
+    </div>
+  );
+};
+
+export default KeyboardNavigation;
@@ -0,0 +1,208 @@
+import React, { useEffect, useRef, useState } from 'react';
+import * as d3 from 'd3';
+import { PLANETS } from '../constants';
+import { PlanetData } from '../types';
+import {
+  OrbitPoint, circularSpeed, equilibriumTemperature, fitPowerLaw, meanOrbitalSpeed, orbitPoints,
+} from '../utils/relations';
+import ToggleGroup from './ToggleGroup';
+import { X } from 'lucide-react';
+
+interface OrbitalRelationsProps {
+  selectedId: string | null;
+  onSelect: (planet: PlanetData) => void;
+  onClose: () => void;
+}
+
+type Plot = 'kepler' | 'velocity' | 'temperature';
+
+const PLOTS: { id: Plot; label: string }[] = [
+  { id: 'kepler', label: 'PERIOD' },
+  { id: 'velocity', label: 'VELOCITY' },
+  { id: 'temperature', label: 'TEMPERATURE' },
+];
+
+const POINTS = orbitPoints();
+const HELIOCENTRIC = POINTS.filter(p => p.system === 'sun');
+const SYSTEMS = [...new Set(POINTS.map(p => p.system))];
+
+interface Series {
+  points: { point: OrbitPoint; y: number; hollow?: boolean }[];
+  curves: { color: string; dashed: boolean; f: (x: number) => number; from: number; to: number }[];
+  yLabel: string;
+  caption: string;
+}
+
+const seriesFor = (plot: Plot): Series => {
+  const auRange = d3.extent(HELIOCENTRIC, p => p.semiMajorAxisAu) as [number, number];
+  switch (plot) {
+    case 'kepler': {
+      // The Sun's law is fitted freely; each moon system is fitted with the exponent fixed at 3/2
+      const fits = SYSTEMS.map(system => {
+        const members = POINTS.filter(p => p.system === system);
+        const law = fitPowerLaw(members.map(p => ({ x: p.semiMajorAxisAu, y: p.periodDays })), system === 'sun' ? undefined : 1.5);
+        const [from, to] = d3.extent(members, p => p.semiMajorAxisAu) as [number, number];
+        return { system, law, from: from / 1.5, to: to * 1.5 };
+      });
+      const sun = fits.find(f => f.system === 'sun')!.law;
+      return {
+        points: POINTS.map(point => ({ point, y: point.periodDays })),
+        curves: fits.map(({ system, law, from, to }) => ({
+          color: system === 'sun' ? '#9ca3af' : PLANETS.find(p => p.id === system)?.color ?? '#9ca3af',
+          dashed: system !== 'sun',
+          f: (x: number) => law.coefficient * Math.pow(x, law.exponent),
+          from,
+          to,
+        })),
+        yLabel: 'Orbital period (days)',
+        caption: `Around the Sun, T ∝ a^${sun.exponent.toFixed(3)}: T² ∝ a³. Dashed lines are moon systems.`,
+      };
+    }
+    case 'velocity':
+      return {
+        points: HELIOCENTRIC.map(point => ({ point, y: meanOrbitalSpeed(point) })),
+        curves: [{ color: '#9ca3af', dashed: false, f: circularSpeed, from: auRange[0] / 1.5, to: auRange[1] * 1.5 }],
+        yLabel: 'Mean orbital speed (km/s)',
+        caption: 'The line is a circular orbit, v ∝ 1/√a.',
+      };
+    case 'temperature':
+      return {
+        points: HELIOCENTRIC.flatMap(point => {
+          const { meanTemperatureK, albedo } = point.body.details;
+          const predicted = { point, y: equilibriumTemperature(point.semiMajorAxisAu, albedo), hollow: true };
+          return meanTemperatureK === undefined ? [predicted] : [predicted, { point, y: meanTemperatureK }];
+        }),
+        curves: [{ color: '#9ca3af', dashed: false, f: (x: number) => equilibriumTemperature(x), from: auRange[0] / 1.5, to: auRange[1] * 1.5 }],
+        yLabel: 'Temperature (K)',
+        caption: 'Hollow: equilibrium for the body\'s albedo. Filled: measured mean. The line is a black body.',
+      };
+  }
+};
+
+/** Log–log scatter plots of how orbits and climates scale with distance. Click a point to fly there. */
+const OrbitalRelations: React.FC<OrbitalRelationsProps> = ({ selectedId, onSelect, onClose }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [plot, setPlot] = useState<Plot>('kepler');
+  const series = seriesFor(plot);
+
+  useEffect(() => {
+    if (!svgRef.current) return;
+    const { points, curves, yLabel } = series;
+
+    const margin = { top: 10, right: 20, bottom: 40, left: 55 };
+    const width = 440 - margin.left - margin.right;
+    const height = 300 - margin.top - margin.bottom;
+
+    const svg = d3.select(svgRef.current);
+    svg.selectAll("*").remove(); // Clear previous
+
+    const g = svg
+      .attr("width", width + margin.left + margin.right)
+      .attr("height", height + margin.top + margin.bottom)
+      .append("g")
+      .attr("transform", `translate(${margin.left},${margin.top})`);
+
+    const [xMin, xMax] = d3.extent(points, d => d.point.semiMajorAxisAu) as [number, number];
+    const [yMin, yMax] = d3.extent(points, d => d.y) as [number, number];
+    const x = d3.scaleLog().range([0, width]).domain([xMin / 2, xMax * 2]);
+    const y = d3.scaleLog().range([height, 0]).domain([yMin / 2, yMax * 2]);
+
+    // Axes
+    g.append("g")
+      .attr("transform", `translate(0,${height})`)
+      .call(d3.axisBottom(x).ticks(5, "~g"))
+      .selectAll("text")
+      .attr("fill", "#9ca3af")
+      .style("font-size", "10px");
+    g.append("g")
+      .call(d3.axisLeft(y).ticks(5, "~g"))
+      .selectAll("text")
+      .attr("fill", "#9ca3af")
+      .style("font-size", "10px");
+    g.selectAll(".domain").attr("stroke", "#4b5563");
+    g.selectAll("line").attr("stroke", "#4b5563");
+
+    g.append("text")
+      .attr("x", width / 2)
+      .attr("y", height + 32)
+      .attr("text-anchor", "middle")
+      .style("font-size", "10px")
+      .style("fill", "#9ca3af")
+      .text("Semi-major axis (AU)");
+    g.append("text")
+      .attr("transform", "rotate(-90)")
+      .attr("x", -height / 2)
+      .attr("y", -42)
+      .attr("text-anchor", "middle")
+      .style("font-size", "10px")
+      .style("fill", "#9ca3af")
+      .text(yLabel);
+
+    // Model curves, sampled evenly in log space
+    curves.forEach(curve => {
+      const samples = d3.range(0, 41).map(i => curve.from * Math.pow(curve.to / curve.from, i / 40));
+      const line = d3.line<number>().x(a => x(a)).y(a => y(curve.f(a)));
+      g.append("path")
+        .datum(samples)
+        .attr("fill", "none")
+        .attr("stroke", curve.color)
+        .attr("stroke-opacity", 0.6)
+        .attr("stroke-dasharray", curve.dashed ? "4 3" : null)
+        .attr("d", line);
+    });
+
+    // Points; the selected body is ringed
+    const dots = g.selectAll(".point")
+      .data(points)
+      .enter().append("circle")
+      .attr("class", "point")
+      .attr("cx", d => x(d.point.semiMajorAxisAu))
+      .attr("cy", d => y(d.y))
+      .attr("r", d => d.point.body.id === selectedId ? 6 : 4)
+      .attr("fill", d => d.hollow ? "none" : d.point.body.color)
+      .attr("stroke", d => d.point.body.id === selectedId ? "#ffffff" : d.point.body.color)
+      .attr("stroke-width", d => d.point.body.id === selectedId ? 2 : 1)
+      .style("cursor", "pointer")
+      .on("click", (_event: MouseEvent, d) => onSelect(d.point.body));
+    dots.append("title").text(d => d.hollow ? `${d.point.body.name} (equilibrium)` : d.point.body.name);
+
+    // Name the planets and the selection; moons are too crowded to label
+    g.selectAll(".label")
+      .data(points.filter(d => !d.hollow && (d.point.body.kind === 'planet' || d.point.body.id === selectedId)))
+      .enter().append("text")
+      .attr("class", "label")
+      .attr("x", d => x(d.point.semiMajorAxisAu) + 6)
+      .attr("y", d => y(d.y) - 6)
+      .style("font-size", "9px")
+      .style("fill", d => d.point.body.id === selectedId ? "#ffffff" : "#e5e7eb")
+      .style("pointer-events", "none")
+      .text(d => d.point.body.name);
+
+  }, [plot, selectedId, onSelect]);
+
+  return (
+    <div
+      className="absolute bottom-10 right-4 w-[30rem] z-20 p-4 bg-black/80 backdrop-blur-md border border-gray-700 rounded-xl shadow-2xl font-mono text-xs"
+      role="region"
+      aria-label="Orbital relations"
+    >
+      <button
+        onClick={onClose}
+        className="absolute top-2 right-2 p-1 text-gray-400 hover:text-white transition-colors"
+        aria-label="Close"
+      >
+        <X size={20} />
+      </button>
+      <h3 className="text-gray-400 tracking-widest mb-3">ORBITAL RELATIONS</h3>
+      <div className="mb-2">
+        <ToggleGroup options={PLOTS} value={plot} onChange={setPlot} label="Plot" />
+      </div>
+      <div className="p-2 bg-gray-900/50 rounded-lg border border-gray-700">
+        <svg ref={svgRef}></svg>
+      </div>
+      <p className="mt-2 text-gray-400">{series.caption}</p>
+    </div>
+  );
+};
+
+export default OrbitalRelations;
@@ -0,0 +1,114 @@
+import React, { useEffect, useRef } from 'react';
+import * as d3 from 'd3';
+import { AxisScale } from './ComparisonChart';
+
+export interface PersonalChartRow {
+  id: string;
+  name: string;
+  color: string;
+  value: number | null; // Null rows are listed without a bar
+  label: string; // Printed at the end of the bar
+}
+
+interface PersonalChartProps {
+  rows: PersonalChartRow[];
+  title: string;
+  scale?: AxisScale;
+  width?: number;
+}
+
+const ROW_HEIGHT = 16;
+
+/** Horizontal bars, one row per body, styled like ComparisonChart. */
+const PersonalChart: React.FC<PersonalChartProps> = ({ rows, title, scale = 'linear', width: outerWidth = 320 }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  useEffect(() => {
+    if (!svgRef.current) return;
+
+    const plottable = (value: number | null): value is number =>
+      value !== null && Number.isFinite(value) && (scale === 'linear' || value > 0);
+    const values = rows.map(r => r.value).filter(plottable);
+
+    const margin = { top: 24, right: 90, bottom: 24, left: 70 };
+    const width = outerWidth - margin.left - margin.right;
+    const height = rows.length * ROW_HEIGHT;
+
+    const svg = d3.select(svgRef.current);
+    svg.selectAll("*").remove(); // Clear previous
+
+    const g = svg
+      .attr("width", outerWidth)
+      .attr("height", height + margin.top + margin.bottom)
+      .append("g")
+      .attr("transform", `translate(${margin.left},${margin.top})`);
+
+    const y = d3.scaleBand()
+      .range([0, height])
+      .padding(0.25)
+      .domain(rows.map(r => r.id));
+
+    const max = d3.max(values) ?? 1;
+    const x = scale === 'log'
+      ? d3.scaleLog().range([0, width]).domain([(d3.min(values) ?? 1) / 2, max]).clamp(true)
+      : d3.scaleLinear().range([0, width]).domain([0, max || 1]);
+
+    // Y Axis (body names)
+    g.append("g")
+      .call(d3.axisLeft(y).tickFormat(id => rows.find(r => r.id === id)?.name ?? id))
+      .selectAll("text")
+      .attr("fill", "#9ca3af")
+      .style("font-size", "10px");
+
+    // X Axis
+    g.append("g")
+      .attr("transform", `translate(0,${height})`)
+      .call(d3.axisBottom(x).ticks(4, "~g"))
+      .selectAll("text")
+      .attr("fill", "#9ca3af")
+      .style("font-size", "10px");
+
+    g.selectAll(".domain").attr("stroke", "#4b5563");
+    g.selectAll("line").attr("stroke", "#4b5563");
+
+    // Bars; values off the scale (an escaping jump) run the full width
+    const barWidth = (value: number | null) => plottable(value) ? x(value) : value === Infinity ? width : 0;
+    g.selectAll(".bar")
+      .data(rows)
+      .enter().append("rect")
+      .attr("class", "bar")
+      .attr("x", 0)
+      .attr("y", r => y(r.id) || 0)
+      .attr("height", y.bandwidth())
+      .attr("width", 0) // Grow from the axis for animation
+      .attr("fill", r => r.color)
+      .transition()
+      .duration(750)
+      .attr("width", r => barWidth(r.value));
+
+    g.selectAll(".value")
+      .data(rows)
+      .enter().append("text")
+      .attr("class", "value")
+      .attr("x", r => barWidth(r.value) + 4)
+      .attr("y", r => (y(r.id) || 0) + y.bandwidth() / 2)
+      .attr("dominant-baseline", "middle")
+      .style("font-size", "10px")
+      .style("fill", "#e5e7eb")
+      .text(r => r.label);
+
+    // Title
+    svg.append("text")
+      .attr("x", outerWidth / 2)
+      .attr("y", 15)
+      .attr("text-anchor", "middle")
+      .style("font-size", "12px")
+      .style("fill", "#e5e7eb")
+      .text(`${title}${scale === 'log' ? ', log scale' : ''}`);
+
+  }, [rows, title, scale, outerWidth]);
+
+  return <svg ref={svgRef}></svg>;
+};
+
+export default PersonalChart;
@@ -0,0 +1,167 @@
+import React, { useMemo, useState } from 'react';
+import { PLANETS } from '../constants';
+import { PersonalInput, personalStats } from '../utils/personal';
+import { UNIT_SYSTEMS, UnitSystem, convertQuantity, formatNumber, formatQuantity, parseQuantity } from '../utils/units';
+import PersonalChart, { PersonalChartRow } from './PersonalChart';
+import { AxisScale } from './ComparisonChart';
+import { AXIS_SCALES } from './ChartControls';
+import ToggleGroup from './ToggleGroup';
+import { X } from 'lucide-react';
+
+interface PersonalPanelProps {
+  units: UnitSystem;
+  onUnitsChange: (units: UnitSystem) => void;
+  besideHud: boolean; // Shift left so the HUD stays visible
+  onClose: () => void;
+}
+
+type View = 'weight' | 'age' | 'birthday' | 'jump';
+
+const VIEWS: { id: View; label: string }[] = [
+  { id: 'weight', label: 'WEIGHT' },
+  { id: 'age', label: 'AGE' },
+  { id: 'birthday', label: 'BIRTHDAY' },
+  { id: 'jump', label: 'JUMP' },
+];
+
+// Comets are too small to stand on in any meaningful sense
+const BODIES = PLANETS.filter(p => p.kind !== 'comet');
+const DAY_MS = 86400000;
+
+const parseNumber = (text: string): number | null => {
+  const value = Number(text);
+  return text.trim() !== '' && Number.isFinite(value) && value >= 0 ? value : null;
+};
+
+/** The reader's weight, age, birthdays and jump height on every world. Nothing entered is stored. */
+const PersonalPanel: React.FC<PersonalPanelProps> = ({ units, onUnitsChange, besideHud, onClose }) => {
+  // The weight as typed, with the unit system it was typed in
+  const [weightEntry, setWeightEntry] = useState<{ text: string; units: UnitSystem }>({ text: '', units });
+  const [birthdayText, setBirthdayText] = useState('');
+  const [ageText, setAgeText] = useState('');
+  const [view, setView] = useState<View>('weight');
+  const [scale, setScale] = useState<AxisScale>('log');
+
+  const massUnit = convertQuantity(0, 'mass', units).unit;
+  const birthday = birthdayText ? new Date(`${birthdayText}T00:00:00`) : null;
+  const validBirthday = birthday && !Number.isNaN(birthday.getTime()) ? birthday : null;
+  const weight = parseNumber(weightEntry.text);
+  const massKg = weight === null ? null : parseQuantity(weight, 'mass', weightEntry.units);
+  // After a unit change the field shows the same weight in the new unit, until it's edited again
+  const weightText = massKg === null || convertQuantity(0, 'mass', weightEntry.units).unit === massUnit
+    ? weightEntry.text
+    : String(Number(convertQuantity(massKg, 'mass', units).value.toFixed(1)));
+
+  const input: PersonalInput = {
+    massKg,
+    birthday: validBirthday,
+    ageYears: parseNumber(ageText),
+  };
+
+  const now = useMemo(() => new Date(), []);
+
+  // Memoised so the chart only redraws (and re-animates) when an answer changes
+  const rows = useMemo<PersonalChartRow[]>(() => BODIES.map(body => {
+    const { weightKg, localAge, nextBirthday, jumpHeightM } = personalStats(body, input, now);
+    const row = { id: body.id, name: body.name, color: body.color };
+    switch (view) {
+      case 'weight':
+        return {
+          ...row,
+          value: weightKg === null ? null : convertQuantity(weightKg, 'mass', units).value,
+          label: weightKg === null ? '' : formatQuantity(weightKg, 'mass', units),
+        };
+      case 'age':
+        return { ...row, value: localAge, label: localAge === null ? '–' : formatNumber(localAge) };
+      case 'birthday': {
+        if (!nextBirthday) return { ...row, value: null, label: '–' };
+        const date = nextBirthday.date.toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric' });
+        return { ...row, value: (nextBirthday.date.getTime() - now.getTime()) / DAY_MS, label: `${date} (${nextBirthday.age})` };
+      }
+      case 'jump':
+        return jumpHeightM === Infinity
+          ? { ...row, value: Infinity, label: 'into orbit!' }
+          : { ...row, value: convertQuantity(jumpHeightM, 'height', units).value, label: formatQuantity(jumpHeightM, 'height', units) };
+    }
+  }), [view, units, massKg, birthdayText, ageText, now]);
+
+  const missing =
+    view === 'weight' && input.massKg === null ? 'Enter your weight to see it on every world.'
+    : (view === 'age' || view === 'birthday') && !input.birthday && input.ageYears === null ? 'Enter your birthday or age.'
+    : null;
+
+  const titles: Record<View, string> = {
+    weight: `Your weight (${massUnit})`,
+    age: 'Your age in local years',
+    birthday: 'Days to your next local birthday',
+    jump: `A ${formatQuantity(0.5, 'height', units)} Earth jump (${convertQuantity(0, 'height', units).unit})`,
+  };
+
+  return (
+    <div
+      className={`absolute top-4 ${besideHud ? 'right-[21.5rem]' : 'right-4'} w-96 max-h-[calc(100vh-2rem)] overflow-y-auto p-4 z-20 bg-black/80 backdrop-blur-md border border-gray-700 rounded-xl shadow-2xl font-mono text-xs`}
+      role="region"
+      aria-label="You on other worlds"
+    >
+      <button
+        onClick={onClose}
+        className="absolute top-2 right-2 p-1 text-gray-400 hover:text-white transition-colors"
+        aria-label="Close"
+      >
+        <X size={20} />
+      </button>
+      <h3 className="text-gray-400 tracking-widest mb-3">YOU ON OTHER WORLDS</h3>
+      <div className="flex justify-end mb-2">
+        <ToggleGroup options={UNIT_SYSTEMS} value={units} onChange={onUnitsChange} label="Unit system" />
+      </div>
+
+      <div className="grid grid-cols-3 gap-2 mb-3">
+        <label className="flex flex-col gap-1">
+          <span className="text-gray-400">Weight ({massUnit})</span>
+          <input
+            type="number"
+            min="0"
+            inputMode="decimal"
+            className="bg-transparent border border-white/20 rounded px-2 py-1 outline-none"
+            value={weightText}
+            onChange={(e) => setWeightEntry({ text: e.target.value, units })}
+          />
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className="text-gray-400">Birthday</span>
+          <input
+            type="date"
+            className="bg-transparent border border-white/20 rounded px-1 py-1 outline-none [color-scheme:dark]"
+            value={birthdayText}
+            onChange={(e) => setBirthdayText(e.target.value)}
+          />
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className="text-gray-400">Age (years)</span>
+          <input
+            type="number"
+            min="0"
+            className="bg-transparent border border-white/20 rounded px-2 py-1 outline-none disabled:opacity-50"
+            value={validBirthday ? ((now.getTime() - validBirthday.getTime()) / DAY_MS / 365.25).toFixed(1) : ageText}
+            onChange={(e) => setAgeText(e.target.value)}
+            disabled={validBirthday !== null}
+            title={validBirthday ? 'Worked out from your birthday' : undefined}
+          />
+        </label>
+      </div>
+
+      <div className="flex items-center justify-between mb-2">
+        <ToggleGroup options={VIEWS} value={view} onChange={setView} label="Result" />
+        <ToggleGroup options={AXIS_SCALES} value={scale} onChange={setScale} label="Axis scale" />
+      </div>
+
+      <div className="p-2 bg-gray-900/50 rounded-lg border border-gray-700">
+        {missing
+          ? <p className="p-4 text-center text-gray-400">{missing}</p>
+          : <PersonalChart rows={rows} title={titles[view]} scale={scale} width={340} />}
+      </div>
+    </div>
+  );
+};
+
+export default PersonalPanel;
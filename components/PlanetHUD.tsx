@@ -1,18 +1,68 @@
-import React from 'react';
+import React, { useMemo, useState } from 'react';
 import { PlanetData } from '../types';
-import ComparisonChart from './ComparisonChart';
-import { X, Globe, Thermometer, Clock } from 'lucide-react';
+import { PLANETS, formatBodyDistance } from '../constants';
+import { FollowMode } from '../engine/HeliosEngine';
+import { MetricId, bodyDensity } from '../utils/metrics';
+import { UNIT_SYSTEMS, UnitSystem, formatQuantity } from '../utils/units';
+import ComparisonChart, { AxisScale } from './ComparisonChart';
+import ChartControls from './ChartControls';
+import ToggleGroup from './ToggleGroup';
+import { X, Globe, Thermometer, Clock, BarChart3, Ruler, Weight, Box, ArrowDownToLine, SunDim, RotateCw, Telescope } from 'lucide-react';
 
 interface PlanetHUDProps {
   planet: PlanetData | null;
   onClose: () => void;
+  onCompare: (planet: PlanetData, metric: MetricId) => void; // Opens the full-screen compare view
+  units: UnitSystem;
+  onUnitsChange: (units: UnitSystem) => void;
+  followMode: FollowMode;
+  onFollowModeChange: (mode: FollowMode) => void;
+  onViewSky: (planet: PlanetData) => void; // Stands the camera on the body
 }
 
-const PlanetHUD: React.FC<PlanetHUDProps> = ({ planet, onClose }) => {
+const EARTH = PLANETS.find(p => p.id === 'earth')!;
+
+const FOLLOW_MODES: { id: FollowMode; label: string; title: string }[] = [
+  { id: 'off', label: 'FREE', title: 'Camera stays where it is' },
+  { id: 'heliocentric', label: 'FOLLOW', title: 'Camera moves with the body' },
+  { id: 'body', label: 'CO-ROTATE', title: 'Camera also turns about the body\'s pole with its orbit' },
+];
+
+const PlanetHUD: React.FC<PlanetHUDProps> = ({ planet, onClose, onCompare, units, onUnitsChange, followMode, onFollowModeChange, onViewSky }) => {
+  // Kept across selections, so stepping through bodies compares the same quantity
+  const [metric, setMetric] = useState<MetricId>('gravity');
+  const [scale, setScale] = useState<AxisScale>('linear');
+  // A new array would redraw the chart, replaying its animation, on every App render
+  const chartBodies = useMemo(() => (!planet || planet.id === EARTH.id ? [EARTH] : [EARTH, planet]), [planet?.id]);
+
   if (!planet) return null;
 
+  const parent = planet.parent ? PLANETS.find(p => p.id === planet.parent) : undefined;
+  // Comets are characterised by their closest approach rather than their mean distance
+  const isComet = planet.kind === 'comet' && planet.orbit;
+  const distanceLabel = isComet ? `${formatBodyDistance(planet, units)} (q)` : formatBodyDistance(planet, units);
+  const { details } = planet;
+  const unbound = planet.orbit !== undefined && planet.orbit.eccentricity > 1;
+
+  const stats = [
+    { icon: Globe, label: isComet ? 'Perihelion' : 'Distance', value: distanceLabel },
+    { icon: Thermometer, label: 'Mean Temp', value: formatQuantity(details.meanTemperatureK, 'temperature', units) },
+    { icon: Clock, label: 'Day Length', value: formatQuantity(details.dayLengthSeconds, 'duration', units) },
+    {
+      icon: Clock,
+      label: 'Year Length',
+      value: unbound ? 'Unbound' : formatQuantity(details.yearLengthDays && details.yearLengthDays * 86400, 'duration', units),
+    },
+    { icon: Ruler, label: 'Radius', value: formatQuantity(planet.radiusKm, 'length', units) },
+    { icon: Weight, label: 'Mass', value: formatQuantity(planet.massKg, 'mass', units) },
+    { icon: Box, label: 'Density', value: formatQuantity(bodyDensity(planet), 'density', units) },
+    { icon: ArrowDownToLine, label: 'Gravity', value: formatQuantity(details.gravity, 'acceleration', units) },
+    { icon: SunDim, label: 'Albedo', value: formatQuantity(details.albedo, 'ratio', units) },
+    { icon: RotateCw, label: 'Axial Tilt', value: formatQuantity(details.axialTiltDeg, 'angle', units) },
+  ];
+
   return (
-    <div className="absolute top-4 right-4 w-80 bg-black/80 backdrop-blur-md border border-gray-700 text-white p-6 rounded-xl shadow-2xl transition-all duration-300 transform animate-in fade-in slide-in-from-right-10 z-20">
+    <div className="absolute top-4 right-4 w-80 max-h-[calc(100vh-2rem)] overflow-y-auto bg-black/80 backdrop-blur-md border border-gray-700 text-white p-6 rounded-xl shadow-2xl transition-all duration-300 transform animate-in fade-in slide-in-from-right-10 z-20">
       <button 
         onClick={onClose}
         className="absolute top-2 right-2 p-1 text-gray-400 hover:text-white transition-colors"
@@ -28,7 +78,7 @@ const PlanetHUD: React.FC<PlanetHUDProps> = ({ planet, onClose }) => {
         />
         <div>
           <h2 className="text-2xl font-bold tracking-wider">{planet.name.toUpperCase()}</h2>
-          <span className="text-xs text-blue-400 font-mono">TYPE: CELESTIAL BODY</span>
+          <span className="text-xs text-blue-400 font-mono">TYPE: {planet.kind.toUpperCase()}{parent ? ` OF ${parent.name.toUpperCase()}` : ''}</span>
         </div>
       </div>
 
@@ -36,34 +86,43 @@ const PlanetHUD: React.FC<PlanetHUDProps> = ({ planet, onClose }) => {
         {planet.description}
       </p>
 
+      <div className="flex items-center justify-between mb-2">
+        <ToggleGroup options={FOLLOW_MODES} value={followMode} onChange={onFollowModeChange} label="Camera" />
+        <ToggleGroup options={UNIT_SYSTEMS} value={units} onChange={onUnitsChange} label="Unit system" />
+      </div>
+
       <div className="grid grid-cols-2 gap-3 text-xs font-mono">
-        <div className="bg-gray-800/50 p-2 rounded border border-gray-700">
-          <div className="flex items-center gap-1 text-gray-400 mb-1">
-            <Globe size={12} /> Distance
-          </div>
-          <div className="text-white">{planet.distance === 0 ? '0' : planet.distance} AU (Rel)</div>
-        </div>
-        <div className="bg-gray-800/50 p-2 rounded border border-gray-700">
-          <div className="flex items-center gap-1 text-gray-400 mb-1">
-            <Thermometer size={12} /> Temp
-          </div>
-          <div className="text-white">{planet.details.temp}</div>
-        </div>
-        <div className="bg-gray-800/50 p-2 rounded border border-gray-700">
-          <div className="flex items-center gap-1 text-gray-400 mb-1">
-            <Clock size={12} /> Day Length
-          </div>
-          <div className="text-white">{planet.details.dayLength}</div>
-        </div>
-        <div className="bg-gray-800/50 p-2 rounded border border-gray-700">
-          <div className="flex items-center gap-1 text-gray-400 mb-1">
-            <Clock size={12} /> Year Length
+        {stats.map(({ icon: Icon, label, value }) => (
+          <div key={label} className="bg-gray-800/50 p-2 rounded border border-gray-700">
+            <div className="flex items-center gap-1 text-gray-400 mb-1">
+              <Icon size={12} /> {label}
+            </div>
+            <div className="text-white">{value}</div>
           </div>
-          <div className="text-white">{planet.details.yearLength}</div>
-        </div>
+        ))}
       </div>
 
-      <ComparisonChart planet={planet} />
+      {planet.kind !== 'star' && (
+        <button
+          className="mt-3 w-full flex items-center justify-center gap-2 px-2 py-1 rounded border border-white/20 hover:bg-white/20 transition-all font-mono text-xs tracking-widest"
+          onClick={() => onViewSky(planet)}
+        >
+          <Telescope size={12} />
+          SKY FROM {planet.name.toUpperCase()}
+        </button>
+      )}
+
+      <div className="mt-4 p-2 bg-gray-900/50 rounded-lg border border-gray-700">
+        <ChartControls metric={metric} scale={scale} onMetricChange={setMetric} onScaleChange={setScale} />
+        <ComparisonChart bodies={chartBodies} metric={metric} units={units} scale={scale} />
+        <button
+          className="flex items-center gap-2 px-2 py-1 rounded border border-white/20 hover:bg-white/20 transition-all font-mono text-xs tracking-widest"
+          onClick={() => onCompare(planet, metric)}
+        >
+          <BarChart3 size={12} />
+          COMPARE…
+        </button>
+      </div>
     </div>
   );
 };
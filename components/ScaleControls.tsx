@@ -0,0 +1,32 @@
+import React from 'react';
+import { SCALE_MODES, ScaleMode } from '../utils/scale';
+import { Ruler } from 'lucide-react';
+
+interface ScaleControlsProps {
+  mode: ScaleMode;
+  onChange: (mode: ScaleMode) => void;
+}
+
+const ScaleControls: React.FC<ScaleControlsProps> = ({ mode, onChange }) => {
+  return (
+    <div className="flex items-center gap-1 px-2 py-1 bg-white/10 backdrop-blur-md rounded-full border border-white/10" role="radiogroup" aria-label="Scale mode">
+      <Ruler size={14} className="mx-1 text-gray-400" />
+      {SCALE_MODES.map(m => (
+        <button
+          key={m.id}
+          role="radio"
+          aria-checked={mode === m.id}
+          title={m.description}
+          onClick={() => onChange(m.id)}
+          className={`px-3 py-1 rounded-full text-xs font-bold tracking-widest transition-all ${
+            mode === m.id ? 'bg-blue-500/60 text-white' : 'text-gray-400 hover:text-white hover:bg-white/10'
+          }`}
+        >
+          {m.label.toUpperCase()}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default ScaleControls;
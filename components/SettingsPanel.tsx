@@ -0,0 +1,114 @@
+import React, { useState } from 'react';
+import { DEFAULT_SETTINGS, LAYERS, LayerId, QUALITY_PRESETS, SETTING_RANGES, SceneSettings } from '../utils/settings';
+import ToggleGroup from './ToggleGroup';
+import { SlidersHorizontal } from 'lucide-react';
+
+interface SettingsPanelProps {
+  settings: SceneSettings;
+  onChange: (settings: SceneSettings) => void;
+}
+
+type NumericSetting = keyof typeof SETTING_RANGES;
+
+const SLIDERS: { key: NumericSetting; label: string; format: (value: number) => string }[] = [
+  { key: 'orbitOpacity', label: 'Orbit opacity', format: v => `${Math.round(v * 100)}%` },
+  { key: 'starDensity', label: 'Star density', format: v => `${Math.round(v * 100)}%` },
+  { key: 'gridRadiusAu', label: 'Grid radius', format: v => `${v} AU` },
+];
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, onChange }) => {
+  const [open, setOpen] = useState(false);
+
+  const toggleLayer = (id: LayerId) =>
+    onChange({ ...settings, layers: { ...settings.layers, [id]: !settings.layers[id] } });
+
+  return (
+    <div className="flex flex-col items-start gap-2">
+      <button
+        className={`flex items-center gap-2 px-4 py-2 backdrop-blur-md rounded-full transition-all border border-white/10 ${open ? 'bg-blue-500/40' : 'bg-white/10 hover:bg-white/20'}`}
+        onClick={() => setOpen(!open)}
+        aria-expanded={open}
+        aria-controls="settings-panel"
+        title="Scene layers and rendering quality"
+      >
+        <SlidersHorizontal size={16} />
+        <span className="text-xs font-bold tracking-widest">LAYERS</span>
+      </button>
+
+      {open && (
+        <div id="settings-panel" className="w-64 p-4 bg-black/60 backdrop-blur-md rounded-xl border border-white/10 font-mono text-xs">
+          <h3 className="text-gray-400 tracking-widest mb-2">VISIBLE LAYERS</h3>
+          <div className="flex flex-col gap-1 mb-4">
+            {LAYERS.map(layer => (
+              <label key={layer.id} className="flex items-center gap-2 cursor-pointer hover:text-blue-300">
+                <input
+                  type="checkbox"
+                  className="accent-blue-500"
+                  checked={settings.layers[layer.id]}
+                  onChange={() => toggleLayer(layer.id)}
+                />
+                {layer.label}
+              </label>
+            ))}
+            <label className="flex items-center gap-2 cursor-pointer hover:text-blue-300">
+              <input
+                type="checkbox"
+                className="accent-blue-500"
+                checked={settings.allLabels}
+                onChange={() => onChange({ ...settings, allLabels: !settings.allLabels })}
+              />
+              All body labels
+            </label>
+          </div>
+
+          <h3 className="text-gray-400 tracking-widest mb-2">PARAMETERS</h3>
+          <div className="flex flex-col gap-2 mb-4">
+            {SLIDERS.map(({ key, label, format }) => (
+              <label key={key} className="flex flex-col gap-1">
+                <span className="flex justify-between">
+                  <span>{label}</span>
+                  <span className="text-blue-300">{format(settings[key])}</span>
+                </span>
+                <input
+                  type="range"
+                  className="accent-blue-500"
+                  {...SETTING_RANGES[key]}
+                  value={settings[key]}
+                  onChange={(e) => onChange({ ...settings, [key]: Number(e.target.value) })}
+                />
+              </label>
+            ))}
+          </div>
+
+          <h3 className="text-gray-400 tracking-widest mb-2">QUALITY</h3>
+          <div className="flex flex-col gap-2 mb-4">
+            <ToggleGroup
+              options={QUALITY_PRESETS}
+              value={settings.quality}
+              onChange={(quality) => onChange({ ...settings, quality })}
+              label="Rendering quality"
+            />
+            <label className="flex items-center gap-2 cursor-pointer hover:text-blue-300">
+              <input
+                type="checkbox"
+                className="accent-blue-500"
+                checked={settings.showStats}
+                onChange={() => onChange({ ...settings, showStats: !settings.showStats })}
+              />
+              Frame rate overlay
+            </label>
+          </div>
+
+          <button
+            className="px-2 py-1 rounded border border-white/20 hover:bg-white/20 transition-all tracking-widest"
+            onClick={() => onChange(DEFAULT_SETTINGS)}
+          >
+            RESET
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SettingsPanel;
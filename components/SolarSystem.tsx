@@ -1,916 +1,221 @@
 import React, { useRef, useEffect, useState } from 'react';
-import * as THREE from 'three';
-import { OrbitControls } from 'three/addons/controls/OrbitControls.js';
-import gsap from 'gsap';
 import { PLANETS } from '../constants';
-import { PlanetData } from '../types';
+import { CameraView, PlanetData, Vector3 } from '../types';
+import { FollowMode, HeliosEngine, RenderStats, SurfaceView } from '../engine/HeliosEngine';
+import { SimulationClock } from '../utils/simulationClock';
+import { ScaleMode } from '../utils/scale';
+import { SceneSettings } from '../utils/settings';
+import { isEditableTarget } from '../utils/keyboard';
 import { RotateCcw } from 'lucide-react';
 
 interface SolarSystemProps {
   onPlanetSelect: (planet: PlanetData) => void;
   selectedPlanetId: string | null;
+  focusOffset?: Vector3; // Camera offset from the selected body, in body radii
+  keyboardFocusId?: string | null; // Body picked with the arrow keys, labelled but not selected
+  clock: SimulationClock;
+  scaleMode: ScaleMode;
+  visitorComets: boolean;
+  settings: SceneSettings;
+  cameraView?: CameraView | null; // Fly here whenever a new view object is passed
+  onCameraChange?: (view: CameraView) => void;
+  onResetView: () => void; // Reset button and R key: back to the overview
+  reducedMotion?: boolean;
+  followMode?: FollowMode; // How the camera tracks the selected body
+  surfaceView?: SurfaceView | null; // Stand on a body and look at the sky
 }
 
-const SolarSystem: React.FC<SolarSystemProps> = ({ onPlanetSelect, selectedPlanetId }) => {
+// Compass card for the surface view: a tick every 15°, repeated past both ends so it can scroll round
+const COMPASS_PX_PER_DEG = 4;
+const COMPASS_TICKS = Array.from({ length: 49 }, (_, i) => i * 15 - 180);
+const COMPASS_POINTS: Record<number, string> = { 0: 'N', 45: 'NE', 90: 'E', 135: 'SE', 180: 'S', 225: 'SW', 270: 'W', 315: 'NW' };
+
+// Thin React wrapper: the scene itself lives in HeliosEngine
+const SolarSystem: React.FC<SolarSystemProps> = ({ onPlanetSelect, selectedPlanetId, focusOffset, clock, scaleMode, visitorComets, settings, cameraView, onCameraChange, onResetView, keyboardFocusId = null, reducedMotion = false, followMode, surfaceView = null }) => {
   const mountRef = useRef<HTMLDivElement>(null);
-  const rendererRef = useRef<THREE.WebGLRenderer | null>(null);
-  const sceneRef = useRef<THREE.Scene | null>(null);
-  const cameraRef = useRef<THREE.PerspectiveCamera | null>(null);
-  const controlsRef = useRef<OrbitControls | null>(null);
-  const planetsRef = useRef<{ mesh: THREE.Object3D; data: PlanetData; angle: number; orbitLine?: THREE.Line }[]>([]);
-  
-  const moonRef = useRef<{ mesh: THREE.Mesh; angle: number; distance: number; speed: number } | null>(null);
-  const cometRef = useRef<{ mesh: THREE.Mesh; tail: THREE.Points; velocity: THREE.Vector3; active: boolean; tailPositions: Float32Array } | null>(null);
-  const sunEffectsRef = useRef<{ halos: THREE.Mesh[]; sprites: THREE.Sprite[] } | null>(null);
-  const magneticFieldRef = useRef<THREE.Group | null>(null);
-  const starFieldsRef = useRef<{ mesh: THREE.Points; material: THREE.ShaderMaterial }[]>([]);
-  const asteroidsRef = useRef<THREE.Points | null>(null);
-  const nebulaeRef = useRef<THREE.Points[]>([]);
-  const auroraMaterialRef = useRef<THREE.ShaderMaterial | null>(null);
-  
-  const animationFrameRef = useRef<number>(0);
-  const mouseRef = useRef<THREE.Vector2>(new THREE.Vector2(-1, -1));
-  const hoveredPlanetIdRef = useRef<string | null>(null);
+  const engineRef = useRef<HeliosEngine | null>(null);
   const labelRefs = useRef<{ [key: string]: HTMLDivElement | null }>({});
+  const horizonRef = useRef<HTMLDivElement>(null);
+  const onPlanetSelectRef = useRef(onPlanetSelect);
+  onPlanetSelectRef.current = onPlanetSelect;
+  const onCameraChangeRef = useRef(onCameraChange);
+  onCameraChangeRef.current = onCameraChange;
+  const onResetViewRef = useRef(onResetView);
+  onResetViewRef.current = onResetView;
+  const [stats, setStats] = useState<RenderStats | null>(null);
+  // Set while the effects below run in the same commit as the engine's creation,
+  // which has already applied the selection and camera view
+  const freshEngineRef = useRef(false);
 
   useEffect(() => {
     if (!mountRef.current) return;
 
-    // --- Scene Setup ---
-    const scene = new THREE.Scene();
-    sceneRef.current = scene;
-    scene.background = new THREE.Color(0x020205); 
-    scene.fog = new THREE.FogExp2(0x020205, 0.002);
-
-    // --- Camera ---
-    const width = mountRef.current.clientWidth;
-    const height = mountRef.current.clientHeight;
-    const camera = new THREE.PerspectiveCamera(60, width / height, 0.1, 3000);
-    cameraRef.current = camera;
-    camera.position.set(0, 80, 160);
-
-    // --- Renderer ---
-    const renderer = new THREE.WebGLRenderer({ antialias: true, alpha: true });
-    renderer.setSize(width, height);
-    renderer.setPixelRatio(Math.min(window.devicePixelRatio, 2));
-    renderer.shadowMap.enabled = true;
-    renderer.shadowMap.type = THREE.PCFSoftShadowMap;
-    renderer.toneMapping = THREE.ACESFilmicToneMapping;
-    renderer.toneMappingExposure = 1.3; 
-    mountRef.current.appendChild(renderer.domElement);
-    rendererRef.current = renderer;
-
-    // --- Controls ---
-    const controls = new OrbitControls(camera, renderer.domElement);
-    controls.enableDamping = true;
-    controls.dampingFactor = 0.05;
-    controls.minDistance = 5;
-    controls.maxDistance = 500;
-    controlsRef.current = controls;
-
-    // --- Lighting ---
-    // Sun PointLight - Source of shadows
-    const sunLight = new THREE.PointLight(0xffaa33, 3.0, 800);
-    sunLight.position.set(0, 0, 0);
-    sunLight.castShadow = true;
-    sunLight.shadow.mapSize.width = 2048;
-    sunLight.shadow.mapSize.height = 2048;
-    sunLight.shadow.camera.near = 0.1;
-    sunLight.shadow.camera.far = 500;
-    sunLight.shadow.bias = -0.0001; // Reduce shadow acne
-    sunLight.shadow.radius = 2; // Soften shadows
-    scene.add(sunLight);
-
-    // Ambient Light - Brightened to remove "too darken textures"
-    const ambientLight = new THREE.AmbientLight(0xffffff, 0.5); 
-    scene.add(ambientLight);
-
-    // Hemisphere Light - Fill light
-    const hemisphereLight = new THREE.HemisphereLight(0x444466, 0x080820, 0.5);
-    scene.add(hemisphereLight);
-
-    // --- Textures & Materials ---
-    const createParticleTexture = () => {
-        const canvas = document.createElement('canvas');
-        canvas.width = 64;
-        canvas.height = 64;
-        const ctx = canvas.getContext('2d');
-        if (!ctx) return null;
-        
-        const grad = ctx.createRadialGradient(32,32,0, 32,32,32);
-        grad.addColorStop(0, "rgba(255,255,255,1)");
-        grad.addColorStop(0.3, "rgba(255,255,255,0.6)");
-        grad.addColorStop(0.5, "rgba(255,255,255,0.2)");
-        grad.addColorStop(1, "rgba(0,0,0,0)");
-        
-        ctx.fillStyle = grad;
-        ctx.fillRect(0,0,64,64);
-        
-        return new THREE.CanvasTexture(canvas);
-    };
-
-    const particleTexture = createParticleTexture();
-
-    // --- 1. DYNAMIC NEBULAE ---
-    const createNebula = (count: number, color: THREE.Color, range: number) => {
-        const geo = new THREE.BufferGeometry();
-        const pos = new Float32Array(count * 3);
-        
-        for(let i=0; i<count; i++) {
-             // Random cloud distribution
-             const r = range + Math.random() * 100;
-             const theta = Math.random() * Math.PI * 2;
-             const phi = Math.random() * Math.PI;
-             
-             pos[i*3] = r * Math.sin(phi) * Math.cos(theta);
-             pos[i*3+1] = r * Math.sin(phi) * Math.sin(theta) * 0.5; // flatten slightly
-             pos[i*3+2] = r * Math.cos(phi);
-        }
-        
-        geo.setAttribute('position', new THREE.BufferAttribute(pos, 3));
-        const mat = new THREE.PointsMaterial({
-            size: 60,
-            color: color,
-            map: particleTexture || undefined,
-            transparent: true,
-            opacity: 0.08,
-            blending: THREE.AdditiveBlending,
-            depthWrite: false,
-        });
-        const mesh = new THREE.Points(geo, mat);
-        scene.add(mesh);
-        nebulaeRef.current.push(mesh);
-    };
-    
-    // Add layers of nebulae
-    createNebula(100, new THREE.Color(0x330055), 200); // Purple
-    createNebula(100, new THREE.Color(0x002255), 250); // Blue
-
-    // --- 2. ASTEROID BELT ---
-    // Between Mars (30) and Jupiter (45)
-    const asteroidCount = 1500;
-    const asteroidGeo = new THREE.BufferGeometry();
-    const asteroidPos = new Float32Array(asteroidCount * 3);
-    const asteroidSizes = new Float32Array(asteroidCount);
-    
-    for(let i=0; i<asteroidCount; i++) {
-        const r = 34 + Math.random() * 8; // Radius 34-42
-        const theta = Math.random() * Math.PI * 2;
-        const y = (Math.random() - 0.5) * 1.5;
-        
-        asteroidPos[i*3] = r * Math.cos(theta);
-        asteroidPos[i*3+1] = y;
-        asteroidPos[i*3+2] = r * Math.sin(theta);
-        
-        asteroidSizes[i] = Math.random() * 0.4 + 0.1;
-    }
-    asteroidGeo.setAttribute('position', new THREE.BufferAttribute(asteroidPos, 3));
-    asteroidGeo.setAttribute('size', new THREE.BufferAttribute(asteroidSizes, 1));
-    
-    const asteroidMat = new THREE.ShaderMaterial({
-        uniforms: {
-            color: { value: new THREE.Color(0x888888) }
-        },
-        vertexShader: `
-          attribute float size;
-          void main() {
-            vec4 mvPosition = modelViewMatrix * vec4(position, 1.0);
-            gl_PointSize = size * (300.0 / -mvPosition.z);
-            gl_Position = projectionMatrix * mvPosition;
-          }
-        `,
-        fragmentShader: `
-          uniform vec3 color;
-          void main() {
-            if (length(gl_PointCoord - vec2(0.5)) > 0.5) discard;
-            gl_FragColor = vec4(color, 1.0);
-          }
-        `,
-        transparent: false
-    });
-
-    const asteroids = new THREE.Points(asteroidGeo, asteroidMat);
-    scene.add(asteroids);
-    asteroidsRef.current = asteroids;
-
-
-    // --- 3. TWINKLING STAR FIELDS ---
-    // Custom Shader for Twinkling
-    const starVertexShader = `
-        attribute float size;
-        attribute float speed;
-        attribute float brightness;
-        varying float vAlpha;
-        uniform float uTime;
-        void main() {
-          vec4 mvPosition = modelViewMatrix * vec4(position, 1.0);
-          gl_PointSize = size * (300.0 / -mvPosition.z);
-          gl_Position = projectionMatrix * mvPosition;
-          
-          float twinkle = sin(uTime * speed + position.x * 0.05);
-          vAlpha = 0.5 + 0.5 * twinkle;
-          vAlpha *= brightness;
-        }
-    `;
-
-    const starFragmentShader = `
-        uniform sampler2D pointTexture;
-        varying float vAlpha;
-        void main() {
-          vec4 tex = texture2D(pointTexture, gl_PointCoord);
-          gl_FragColor = vec4(1.0, 1.0, 1.0, vAlpha) * tex;
-        }
-    `;
-
-    const createTwinklingStars = (count: number, baseSize: number, radius: number) => {
-        const geo = new THREE.BufferGeometry();
-        const pos = new Float32Array(count * 3);
-        const sizes = new Float32Array(count);
-        const speeds = new Float32Array(count);
-        const brightness = new Float32Array(count);
-        
-        for(let i=0; i<count; i++) {
-            const r = radius + Math.random() * 500;
-            const theta = Math.random() * Math.PI * 2;
-            const phi = Math.acos(2 * Math.random() - 1);
-            
-            pos[i*3] = r * Math.sin(phi) * Math.cos(theta);
-            pos[i*3+1] = r * Math.sin(phi) * Math.sin(theta);
-            pos[i*3+2] = r * Math.cos(phi);
-            
-            sizes[i] = baseSize * (0.5 + Math.random());
-            speeds[i] = 1.0 + Math.random() * 3.0;
-            brightness[i] = 0.5 + Math.random() * 0.5;
-        }
-        
-        geo.setAttribute('position', new THREE.BufferAttribute(pos, 3));
-        geo.setAttribute('size', new THREE.BufferAttribute(sizes, 1));
-        geo.setAttribute('speed', new THREE.BufferAttribute(speeds, 1));
-        geo.setAttribute('brightness', new THREE.BufferAttribute(brightness, 1));
-        
-        const mat = new THREE.ShaderMaterial({
-            uniforms: {
-                uTime: { value: 0 },
-                pointTexture: { value: particleTexture }
-            },
-            vertexShader: starVertexShader,
-            fragmentShader: starFragmentShader,
-            transparent: true,
-            blending: THREE.AdditiveBlending,
-            depthWrite: false
-        });
-        
-        const mesh = new THREE.Points(geo, mat);
-        scene.add(mesh);
-        return { mesh, material: mat };
-    };
-
-    const starsBG = createTwinklingStars(5000, 3.0, 600);
-    const starsFG = createTwinklingStars(2000, 4.0, 300);
-    starFieldsRef.current = [starsBG, starsFG];
-
-    // --- COMET SETUP ---
-    const cometHeadGeo = new THREE.SphereGeometry(0.4, 16, 16);
-    const cometHeadMat = new THREE.MeshBasicMaterial({ color: 0xaaccff });
-    const cometHead = new THREE.Mesh(cometHeadGeo, cometHeadMat);
-    
-    const tailCount = 100;
-    const tailGeo = new THREE.BufferGeometry();
-    const tailPos = new Float32Array(tailCount * 3);
-    const tailSizes = new Float32Array(tailCount);
-    
-    for(let i=0; i<tailCount; i++) {
-        tailSizes[i] = (1 - i/tailCount) * 3;
-        tailPos[i*3] = 9999; 
-    }
-    
-    tailGeo.setAttribute('position', new THREE.BufferAttribute(tailPos, 3));
-    tailGeo.setAttribute('size', new THREE.BufferAttribute(tailSizes, 1));
-    
-    const tailMat = new THREE.PointsMaterial({
-        color: 0x88ccff,
-        size: 2,
-        transparent: true,
-        opacity: 0.6,
-        map: particleTexture || undefined,
-        blending: THREE.AdditiveBlending,
-        depthWrite: false
+    const engine = new HeliosEngine({
+      clock,
+      scaleMode,
+      visitorComets,
+      settings,
+      reducedMotion,
+      followMode,
+      onSelect: (id) => {
+        const found = PLANETS.find(p => p.id === id);
+        if (found) onPlanetSelectRef.current(found);
+      },
+      onCameraChange: (view) => onCameraChangeRef.current?.(view),
+      onStats: setStats,
     });
-    
-    const cometTail = new THREE.Points(tailGeo, tailMat);
-    
-    scene.add(cometHead);
-    scene.add(cometTail);
-    
-    cometRef.current = {
-        mesh: cometHead,
-        tail: cometTail,
-        velocity: new THREE.Vector3(0.5, 0, 0.2),
-        active: false,
-        tailPositions: new Float32Array(tailCount * 3)
-    };
-    cometHead.visible = false;
-    cometTail.visible = false;
-
-    // --- SUN EFFECTS ---
-    const sunHalos: THREE.Mesh[] = [];
-    const sunSprites: THREE.Sprite[] = [];
-    const sunGeo = new THREE.SphereGeometry(5.2, 32, 32);
-    const fireMat1 = new THREE.MeshBasicMaterial({
-        color: 0xffaa00,
-        transparent: true,
-        opacity: 0.3,
-        blending: THREE.AdditiveBlending,
-        wireframe: true,
-    });
-    const sunFire1 = new THREE.Mesh(sunGeo, fireMat1);
-    scene.add(sunFire1);
-    sunHalos.push(sunFire1);
-
-    if (particleTexture) {
-        const spriteMat = new THREE.SpriteMaterial({ 
-            map: particleTexture, 
-            color: 0xff5500, 
-            transparent: true, 
-            opacity: 0.6,
-            blending: THREE.AdditiveBlending 
-        });
-        const sprite = new THREE.Sprite(spriteMat);
-        sprite.scale.set(30, 30, 1);
-        scene.add(sprite);
-        sunSprites.push(sprite);
-        
-        const spriteMat2 = new THREE.SpriteMaterial({ 
-            map: particleTexture, 
-            color: 0xffdd44, 
-            transparent: true, 
-            opacity: 0.4,
-            blending: THREE.AdditiveBlending 
-        });
-        const sprite2 = new THREE.Sprite(spriteMat2);
-        sprite2.scale.set(15, 15, 1);
-        scene.add(sprite2);
-        sunSprites.push(sprite2);
-    }
-    sunEffectsRef.current = { halos: sunHalos, sprites: sunSprites };
+    PLANETS.forEach(p => engine.setLabel(p.id, labelRefs.current[p.id]));
+    engine.setKeyboardFocus(keyboardFocusId);
+    engine.mount(mountRef.current);
+    // A restored camera view wins over the default framing of the selection.
+    // Jump there first: a fixed view stops following, and selecting afterwards
+    // locks onto the body again from the restored offset.
+    if (cameraView) engine.setCameraView(cameraView, 0);
+    engine.selectBody(selectedPlanetId, { flyTo: !cameraView, offset: focusOffset });
+    engineRef.current = engine;
+    freshEngineRef.current = true;
 
-    // --- 4. ELECTROMAGNETIC FIELD (Sun) ---
-    // Visualizing the powerful magnetic field lines of the sun
-    const magneticGroup = new THREE.Group();
-    const magMaterial = new THREE.LineBasicMaterial({
-        color: 0x4488ff,
-        transparent: true,
-        opacity: 0.2,
-        blending: THREE.AdditiveBlending
-    });
-    
-    const createFieldLoop = (xRadius: number, yRadius: number, rotationAngle: number) => {
-        const curve = new THREE.EllipseCurve(0, 0, xRadius, yRadius, 0, 2 * Math.PI, false, 0);
-        const points = curve.getPoints(64);
-        const geometry = new THREE.BufferGeometry().setFromPoints(points);
-        const line = new THREE.Line(geometry, magMaterial);
-        line.rotation.y = rotationAngle;
-        magneticGroup.add(line);
+    return () => {
+      engine.dispose();
+      engineRef.current = null;
     };
+    // Later prop changes are forwarded by the effects below
+  }, [clock]);
 
-    // Create toroidal field lines
-    for (let i = 0; i < 8; i++) {
-        const angle = (i / 8) * Math.PI; 
-        createFieldLoop(8, 15, angle);  // Inner loop
-        createFieldLoop(15, 30, angle); // Outer loop
-    }
-    
-    magneticGroup.rotation.z = 0.1; // Tilt
-    scene.add(magneticGroup);
-    magneticFieldRef.current = magneticGroup;
+  useEffect(() => {
+    if (freshEngineRef.current) return;
+    engineRef.current?.selectBody(selectedPlanetId, { offset: focusOffset });
+  }, [selectedPlanetId, focusOffset]);
 
-    // --- 5. MASS-GRAVIMETRIC GRID (Metric) ---
-    // Visualize the plane of spacetime curvature and distance metric
-    const polarGrid = new THREE.PolarGridHelper(120, 16, 8, 0x334455, 0x111111);
-    polarGrid.position.y = -2; // Slightly below ecliptic plane
-    
-    if (polarGrid.material instanceof THREE.Material) {
-        polarGrid.material.transparent = true;
-        polarGrid.material.opacity = 0.15;
-        polarGrid.material.blending = THREE.AdditiveBlending;
+  // After the selection effect, so a requested view replaces the selection's flight
+  useEffect(() => {
+    if (freshEngineRef.current) {
+      freshEngineRef.current = false;
+      return;
     }
-    
-    scene.add(polarGrid);
-
-    // --- AURORA SHADERS ---
-    const auroraVertexShader = `
-      varying vec2 vUv;
-      varying vec3 vNormal;
-      varying vec3 vViewPosition;
-      void main() {
-        vUv = uv;
-        vNormal = normalize(normalMatrix * normal);
-        vec4 mvPosition = modelViewMatrix * vec4(position, 1.0);
-        vViewPosition = -mvPosition.xyz;
-        gl_Position = projectionMatrix * mvPosition;
-      }
-    `;
-
-    const auroraFragmentShader = `
-      uniform float uTime;
-      varying vec2 vUv;
-      varying vec3 vNormal;
-      varying vec3 vViewPosition;
-
-      vec3 permute(vec3 x) { return mod(((x*34.0)+1.0)*x, 289.0); }
-
-      float snoise(vec2 v){
-        const vec4 C = vec4(0.211324865405187, 0.366025403784439,
-                 -0.577350269189626, 0.024390243902439);
-        vec2 i  = floor(v + dot(v, C.yy) );
-        vec2 x0 = v -   i + dot(i, C.xx);
-        vec2 i1;
-        i1 = (x0.x > x0.y) ? vec2(1.0, 0.0) : vec2(0.0, 1.0);
-        vec4 x12 = x0.xyxy + C.xxzz;
-        x12.xy -= i1;
-        i = mod(i, 289.0);
-        vec3 p = permute( permute( i.y + vec3(0.0, i1.y, 1.0 ))
-        + i.x + vec3(0.0, i1.x, 1.0 ));
-        vec3 m = max(0.5 - vec3(dot(x0,x0), dot(x12.xy,x12.xy), dot(x12.zw,x12.zw)), 0.0);
-        m = m*m ;
-        m = m*m ;
-        vec3 x = 2.0 * fract(p * C.www) - 1.0;
-        vec3 h = abs(x) - 0.5;
-        vec3 ox = floor(x + 0.5);
-        vec3 a0 = x - ox;
-        m *= 1.79284291400159 - 0.85373472095314 * ( a0*a0 + h*h );
-        vec3 g;
-        g.x  = a0.x  * x0.x  + h.x  * x0.y;
-        g.yz = a0.yz * x12.xz + h.yz * x12.yw;
-        return 130.0 * dot(m, g);
-      }
-
-      void main() {
-        float viewDirDiff = dot(normalize(vViewPosition), vNormal);
-        float fresnel = 1.0 - abs(viewDirDiff);
-        fresnel = pow(fresnel, 2.0);
-
-        float distFromCenter = abs(vUv.y - 0.5) * 2.0; 
-        // Focus on poles: 0.7 to 0.95
-        float mask = smoothstep(0.65, 0.8, distFromCenter) * (1.0 - smoothstep(0.98, 1.0, distFromCenter));
-        
-        float noise1 = snoise(vec2(vUv.x * 12.0 + uTime * 0.1, vUv.y * 10.0));
-        float noise2 = snoise(vec2(vUv.x * 18.0 - uTime * 0.15, vUv.y * 15.0 + uTime * 0.05));
-        
-        float combinedNoise = (noise1 + noise2) * 0.5;
-        float streaks = smoothstep(0.2, 0.7, combinedNoise);
+    if (cameraView) engineRef.current?.setCameraView(cameraView);
+  }, [cameraView]);
 
-        vec3 colorGreen = vec3(0.0, 1.0, 0.6);
-        vec3 colorPurple = vec3(0.6, 0.2, 1.0);
-        vec3 auroraColor = mix(colorGreen, colorPurple, sin(vUv.x * 6.0 + uTime) * 0.5 + 0.5);
-        
-        float alpha = mask * streaks * 0.5 * fresnel;
-        gl_FragColor = vec4(auroraColor, alpha);
-      }
-    `;
-
-    // --- PLANETS ---
-    const textureLoader = new THREE.TextureLoader();
-
-    planetsRef.current = PLANETS.map((planetData) => {
-      const geometry = new THREE.SphereGeometry(planetData.radius, 64, 64);
-      let material;
-      const texture = planetData.textureUrl ? textureLoader.load(planetData.textureUrl) : null;
-      // If a texture exists, use it; otherwise fallback to color. 
-      // Emissive will handle the "glow" selection state.
-      const displayColor = texture ? 0xffffff : planetData.color;
-
-      if (planetData.id === 'sun') {
-        // Enhanced Sun Material with Emissive properties
-        material = new THREE.MeshStandardMaterial({ 
-          color: 0xffaa00,
-          map: texture || undefined,
-          emissive: 0xff4400,
-          emissiveIntensity: 1.0,
-          emissiveMap: texture || undefined,
-          roughness: 0.4,
-          metalness: 0.0
-        });
-      } else {
-        material = new THREE.MeshStandardMaterial({ 
-          color: displayColor,
-          map: texture || undefined,
-          roughness: 0.6, // Reduced roughness for better light interaction
-          metalness: 0.1, // Slight metallic feel
-          emissive: new THREE.Color(planetData.color),
-          emissiveIntensity: 0
-        });
-
-        if (planetData.id === 'saturn') {
-            const ringGeo = new THREE.RingGeometry(planetData.radius * 1.4, planetData.radius * 2.2, 64);
-            const ringMat = new THREE.MeshStandardMaterial({ 
-                color: 0xaa8844, 
-                side: THREE.DoubleSide, 
-                transparent: true, 
-                opacity: 0.8,
-                roughness: 0.5,
-                metalness: 0.1
-            });
-            const ring = new THREE.Mesh(ringGeo, ringMat);
-            ring.rotation.x = Math.PI / 2;
-            ring.receiveShadow = true;
-            ring.castShadow = true;
+  useEffect(() => {
+    engineRef.current?.setScaleMode(scaleMode);
+  }, [scaleMode]);
 
-            const group = new THREE.Group();
-            const planetMesh = new THREE.Mesh(geometry, material);
-            planetMesh.castShadow = true;
-            planetMesh.receiveShadow = true;
+  useEffect(() => {
+    engineRef.current?.setVisitorComets(visitorComets);
+  }, [visitorComets]);
 
-            group.add(planetMesh);
-            group.add(ring);
-            
-            group.userData = { id: planetData.id };
-            scene.add(group);
-            return {
-                mesh: group,
-                data: planetData,
-                angle: Math.random() * Math.PI * 2,
-                orbitLine: createOrbit(planetData.distance, scene)
-            };
-        }
-      }
+  useEffect(() => {
+    engineRef.current?.applySettings(settings);
+  }, [settings]);
 
-      const mesh = new THREE.Mesh(geometry, material);
-      mesh.userData = { id: planetData.id };
-      
-      // Sun shouldn't cast/receive shadows in the same way as planets to avoid artifacts with internal light
-      if (planetData.id === 'sun') {
-          mesh.castShadow = false; 
-          mesh.receiveShadow = false;
-      } else {
-          mesh.castShadow = true;
-          mesh.receiveShadow = true;
-      }
+  useEffect(() => {
+    engineRef.current?.setReducedMotion(reducedMotion);
+  }, [reducedMotion]);
 
-      scene.add(mesh);
+  useEffect(() => {
+    engineRef.current?.setKeyboardFocus(keyboardFocusId);
+  }, [keyboardFocusId]);
 
-      if (planetData.id === 'earth') {
-          const moonGeo = new THREE.SphereGeometry(planetData.radius * 0.27, 32, 32);
-          const moonMat = new THREE.MeshStandardMaterial({
-              color: 0x888888,
-              roughness: 0.8
-          });
-          const moonMesh = new THREE.Mesh(moonGeo, moonMat);
-          moonMesh.castShadow = true;
-          moonMesh.receiveShadow = true;
-          scene.add(moonMesh);
-          moonRef.current = {
-              mesh: moonMesh,
-              angle: 0,
-              distance: 4,
-              speed: 0.05
-          };
+  useEffect(() => {
+    engineRef.current?.setFollowMode(followMode ?? 'off');
+  }, [followMode]);
 
-          // Aurora
-          const auroraGeo = new THREE.SphereGeometry(planetData.radius * 1.02, 64, 64);
-          const auroraMat = new THREE.ShaderMaterial({
-            uniforms: { uTime: { value: 0 } },
-            vertexShader: auroraVertexShader,
-            fragmentShader: auroraFragmentShader,
-            side: THREE.DoubleSide,
-            blending: THREE.AdditiveBlending,
-            transparent: true,
-            depthWrite: false,
-          });
-          const auroraMesh = new THREE.Mesh(auroraGeo, auroraMat);
-          mesh.add(auroraMesh);
-          auroraMaterialRef.current = auroraMat;
-      }
+  useEffect(() => {
+    engineRef.current?.setHorizon(horizonRef.current);
+    engineRef.current?.setSurfaceView(surfaceView);
+  }, [surfaceView]);
 
-      const orbitLine = createOrbit(planetData.distance, scene);
-      return {
-        mesh,
-        data: planetData,
-        angle: Math.random() * Math.PI * 2,
-        orbitLine
-      };
+  // WASD orbits the camera and Q/E zoom while held; R resets the view
+  useEffect(() => {
+    const held = new Set<string>();
+    const axis = (negative: string, positive: string) => (held.has(positive) ? 1 : 0) - (held.has(negative) ? 1 : 0);
+    const applyHeld = () => engineRef.current?.setOrbitInput({
+      azimuth: axis('a', 'd'),
+      polar: axis('w', 's'),
+      zoom: axis('e', 'q'),
     });
 
-    // Initialize Sun Pulse Animation
-    const sunObj = planetsRef.current.find(p => p.data.id === 'sun');
-    if (sunObj && sunObj.mesh) {
-        // Handle Mesh or Group (Sun is a Mesh)
-        if (sunObj.mesh instanceof THREE.Mesh && sunObj.mesh.material instanceof THREE.MeshStandardMaterial) {
-            const mat = sunObj.mesh.material;
-            gsap.to(mat, {
-                emissiveIntensity: 2.5,
-                duration: 2 + Math.random(),
-                repeat: -1,
-                yoyo: true,
-                ease: "sine.inOut"
-            });
-        }
-    }
-
-    const raycaster = new THREE.Raycaster();
-
-    const onPointerMove = (event: MouseEvent) => {
-        const rect = renderer.domElement.getBoundingClientRect();
-        mouseRef.current.x = ((event.clientX - rect.left) / rect.width) * 2 - 1;
-        mouseRef.current.y = -((event.clientY - rect.top) / rect.height) * 2 + 1;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey || isEditableTarget(e.target)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'r') {
+        if (!e.repeat) onResetViewRef.current();
+      } else if ('wasdqe'.includes(key) && key.length === 1) {
+        held.add(key);
+        applyHeld();
+      }
     };
-
-    const onPointerDown = (event: MouseEvent) => {
-        if (hoveredPlanetIdRef.current) {
-            const found = PLANETS.find(p => p.id === hoveredPlanetIdRef.current);
-            if (found) onPlanetSelect(found);
-        }
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (held.delete(e.key.toLowerCase())) applyHeld();
     };
-
-    mountRef.current.addEventListener('pointermove', onPointerMove);
-    mountRef.current.addEventListener('pointerdown', onPointerDown);
-
-    // --- ANIMATION LOOP ---
-    const clock = new THREE.Clock();
-
-    const animate = () => {
-      animationFrameRef.current = requestAnimationFrame(animate);
-      const elapsedTime = clock.getElapsedTime();
-
-      // Raycasting for Hover
-      raycaster.setFromCamera(mouseRef.current, camera);
-      const planetMeshes = planetsRef.current.map(p => p.mesh);
-      const intersects = raycaster.intersectObjects(planetMeshes, true);
-      
-      let newHoveredId: string | null = null;
-      if (intersects.length > 0) {
-          let object = intersects[0].object;
-          while(object.parent && object.parent.type !== 'Scene') {
-              if (object.userData.id) break;
-              object = object.parent;
-          }
-          newHoveredId = object.userData.id || (object.parent && object.parent.userData.id);
-      }
-      hoveredPlanetIdRef.current = newHoveredId;
-
-      // Rotate planets
-      let earthPos = new THREE.Vector3();
-      planetsRef.current.forEach((planet) => {
-        if (planet.data.distance > 0) {
-            planet.angle += planet.data.speed * 0.5;
-            planet.mesh.position.x = Math.cos(planet.angle) * planet.data.distance;
-            planet.mesh.position.z = Math.sin(planet.angle) * planet.data.distance;
-            if (planet.data.id === 'earth') earthPos.copy(planet.mesh.position);
-        }
-        planet.mesh.rotation.y += 0.005;
-      });
-
-      // Update Moon
-      if (moonRef.current && earthPos) {
-          moonRef.current.angle += moonRef.current.speed;
-          moonRef.current.mesh.position.x = earthPos.x + Math.cos(moonRef.current.angle) * moonRef.current.distance;
-          moonRef.current.mesh.position.z = earthPos.z + Math.sin(moonRef.current.angle) * moonRef.current.distance;
-          moonRef.current.mesh.position.y = earthPos.y + Math.sin(moonRef.current.angle) * 1;
-          moonRef.current.mesh.rotation.y += 0.01;
-      }
-
-      // Update Aurora
-      if (auroraMaterialRef.current) {
-          auroraMaterialRef.current.uniforms.uTime.value = elapsedTime;
-      }
-
-      // Update Labels
-      planetsRef.current.forEach(planet => {
-          const el = labelRefs.current[planet.data.id];
-          if (el) {
-              const pos = planet.mesh.position.clone();
-              pos.project(camera);
-
-              // Check if visible
-              const isVisible = pos.z < 1; // Not behind camera
-              
-              if (isVisible) {
-                  const x = (pos.x * 0.5 + 0.5) * mountRef.current!.clientWidth;
-                  const y = (-(pos.y * 0.5) + 0.5) * mountRef.current!.clientHeight;
-                  
-                  // Use translate3d for better performance
-                  el.style.transform = `translate3d(${x}px, ${y}px, 0) translate(-50%, -100%)`;
-                  
-                  // Show if hovered OR selected
-                  const isActive = planet.data.id === hoveredPlanetIdRef.current || planet.data.id === selectedPlanetId;
-                  el.style.opacity = isActive ? '1' : '0';
-              } else {
-                  el.style.opacity = '0';
-              }
-          }
-      });
-
-      // Update Nebulae
-      nebulaeRef.current.forEach((mesh, i) => {
-          mesh.rotation.y += 0.0001 * (i % 2 === 0 ? 1 : -1);
-      });
-
-      // Update Asteroids
-      if (asteroidsRef.current) {
-          asteroidsRef.current.rotation.y += 0.0005;
-      }
-
-      // Update Stars
-      starFieldsRef.current.forEach((sf, i) => {
-          sf.mesh.rotation.y -= 0.0001 * (i + 1);
-          sf.material.uniforms.uTime.value = elapsedTime;
-      });
-      
-      // Update Sun Effects
-      if (sunEffectsRef.current) {
-          sunEffectsRef.current.sprites.forEach((sprite, i) => {
-              const scaleBase = i === 0 ? 30 : 15;
-              const scaleVar = Math.sin(elapsedTime * 2 + i) * 2;
-              sprite.scale.set(scaleBase + scaleVar, scaleBase + scaleVar, 1);
-              sprite.material.rotation += 0.002 * (i % 2 === 0 ? 1 : -1);
-          });
-          sunEffectsRef.current.halos.forEach((halo) => {
-              halo.rotation.y -= 0.005;
-              halo.rotation.z += 0.002;
-              halo.scale.setScalar(1 + Math.sin(elapsedTime * 4) * 0.02);
-          });
-      }
-
-      // Update Magnetic Field pulsing
-      if (magneticFieldRef.current) {
-          magneticFieldRef.current.rotation.y -= 0.002;
-          magneticFieldRef.current.children.forEach((child) => {
-             if (child instanceof THREE.Line) {
-                 const mat = child.material as THREE.LineBasicMaterial;
-                 // Subtle breathing effect for field lines
-                 mat.opacity = 0.15 + Math.sin(elapsedTime * 2.5) * 0.05;
-             }
-          });
-      }
-
-      // Update Comet
-      if (cometRef.current) {
-          const comet = cometRef.current;
-          if (!comet.active && Math.random() < 0.002) {
-              comet.active = true;
-              comet.mesh.visible = true;
-              comet.tail.visible = true;
-              const angle = Math.random() * Math.PI * 2;
-              const r = 200;
-              comet.mesh.position.set(Math.cos(angle) * r, Math.random() * 50 - 25, Math.sin(angle) * r);
-              const target = new THREE.Vector3(Math.random()*40-20, 0, Math.random()*40-20);
-              const dir = new THREE.Vector3().subVectors(target, comet.mesh.position).normalize();
-              comet.velocity.copy(dir).multiplyScalar(0.8 + Math.random() * 0.5);
-              
-              // Reset tail positions
-              const initialPos = comet.mesh.position.toArray();
-              for(let i=0; i<comet.tailPositions.length; i++) comet.tailPositions[i] = initialPos[i%3];
-          }
-
-          if (comet.active) {
-              comet.mesh.position.add(comet.velocity);
-              
-              // Efficient array shifting for tail effect
-              const positions = comet.tail.geometry.attributes.position.array as Float32Array;
-              positions.copyWithin(3, 0, positions.length - 3);
-              
-              positions[0] = comet.mesh.position.x;
-              positions[1] = comet.mesh.position.y;
-              positions[2] = comet.mesh.position.z;
-              
-              comet.tail.geometry.attributes.position.needsUpdate = true;
-              if (comet.mesh.position.length() > 250) {
-                  comet.active = false;
-                  comet.mesh.visible = false;
-                  comet.tail.visible = false;
-              }
-          }
-      }
-
-      controls.update();
-      renderer.render(scene, camera);
+    // Keys released while the window is in the background never report a keyup
+    const handleBlur = () => {
+      held.clear();
+      applyHeld();
     };
-    animate();
 
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', handleBlur);
     return () => {
-      cancelAnimationFrame(animationFrameRef.current);
-      if (mountRef.current) {
-        mountRef.current.removeEventListener('pointermove', onPointerMove);
-        mountRef.current.removeEventListener('pointerdown', onPointerDown);
-        if (rendererRef.current) {
-            mountRef.current.removeChild(rendererRef.current.domElement);
-            rendererRef.current.dispose();
-        }
-      }
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', handleBlur);
     };
-  }, []); 
-
-  // --- Handle Planet Selection ---
-  useEffect(() => {
-    if (!cameraRef.current || !controlsRef.current) return;
-
-    planetsRef.current.forEach(p => {
-        gsap.to(p.mesh.scale, { x: 1, y: 1, z: 1, duration: 0.5 });
-        if (p.mesh instanceof THREE.Mesh && p.mesh.material instanceof THREE.MeshStandardMaterial) {
-            gsap.to(p.mesh.material, { emissiveIntensity: p.data.id === 'sun' ? 1.0 : 0, duration: 0.5 });
-        } else if (p.mesh.type === 'Group') {
-            const planetMesh = p.mesh.children[0] as THREE.Mesh;
-            if (planetMesh.material instanceof THREE.MeshStandardMaterial) {
-                gsap.to(planetMesh.material, { emissiveIntensity: 0, duration: 0.5 });
-            }
-        }
-        if (p.orbitLine) {
-            const mat = p.orbitLine.material as THREE.LineDashedMaterial;
-            gsap.to(mat, { opacity: 0.25, duration: 0.5 });
-            mat.color.setHex(0xffffff);
-        }
-    });
-
-    if (!selectedPlanetId) return;
-
-    const targetPlanet = planetsRef.current.find(p => p.data.id === selectedPlanetId);
-    if (targetPlanet) {
-        const { x, y, z } = targetPlanet.mesh.position;
-        const radius = targetPlanet.data.radius;
-        const offset = Math.max(radius * 4, 10); 
-
-        gsap.to(controlsRef.current.target, {
-            x: x, y: y, z: z, duration: 1.5, ease: "power2.inOut"
-        });
-        gsap.to(cameraRef.current.position, {
-            x: x + offset, y: y + offset * 0.5, z: z + offset,
-            duration: 1.5, ease: "power2.inOut",
-            onUpdate: () => controlsRef.current?.update()
-        });
-
-        gsap.fromTo(targetPlanet.mesh.scale, 
-            { x: 1, y: 1, z: 1 },
-            { x: 1.2, y: 1.2, z: 1.2, duration: 0.6, yoyo: true, repeat: 3, ease: "sine.inOut" }
-        );
-
-        if (targetPlanet.data.id !== 'sun') {
-             let mat;
-             if (targetPlanet.mesh instanceof THREE.Mesh) mat = targetPlanet.mesh.material as THREE.MeshStandardMaterial;
-             else mat = (targetPlanet.mesh.children[0] as THREE.Mesh).material as THREE.MeshStandardMaterial;
-             if (mat) {
-                 gsap.to(mat, { emissiveIntensity: 0.5, duration: 0.8, ease: "power2.out" });
-             }
-        }
-
-        if (targetPlanet.orbitLine) {
-            const mat = targetPlanet.orbitLine.material as THREE.LineDashedMaterial;
-            mat.color.setHex(0x60a5fa);
-            gsap.fromTo(mat, 
-                { opacity: 0.25 },
-                { opacity: 0.8, duration: 0.6, yoyo: true, repeat: 3, ease: "sine.inOut",
-                  onComplete: () => { gsap.to(mat, { opacity: 0.4, duration: 0.5 }); }
-                }
-            );
-        }
-    }
-  }, [selectedPlanetId]);
-
-  // Resize Handler
-  useEffect(() => {
-    const handleResize = () => {
-      if (!mountRef.current || !cameraRef.current || !rendererRef.current) return;
-      const width = mountRef.current.clientWidth;
-      const height = mountRef.current.clientHeight;
-      cameraRef.current.aspect = width / height;
-      cameraRef.current.updateProjectionMatrix();
-      rendererRef.current.setSize(width, height);
-    };
-    window.addEventListener('resize', handleResize);
-    return () => window.removeEventListener('resize', handleResize);
   }, []);
 
-  const handleResetCamera = () => {
-    if(!cameraRef.current || !controlsRef.current) return;
-    
-    gsap.to(cameraRef.current.position, {
-        x: 0, y: 80, z: 160, duration: 2, ease: "power2.inOut"
-    });
-    gsap.to(controlsRef.current.target, {
-        x: 0, y: 0, z: 0, duration: 2, ease: "power2.inOut",
-        onUpdate: () => controlsRef.current?.update()
-    });
-  };
-
   return (
     <div ref={mountRef} className="w-full h-full relative">
         {/* Reset Camera Button */}
-        <button 
-            onClick={handleResetCamera}
+        <button
+            onClick={onResetView}
             className="absolute top-4 left-1/2 transform -translate-x-1/2 bg-white/10 backdrop-blur-md border border-white/20 p-2 rounded-full hover:bg-white/20 transition-all text-white z-10 group"
             title="Reset View"
         >
             <RotateCcw size={20} className="group-hover:rotate-180 transition-transform duration-500"/>
         </button>
 
+        {/* Surface View Horizon and Compass, moved by the engine through CSS variables */}
+        {surfaceView && (
+            <div ref={horizonRef} className="absolute inset-0 pointer-events-none overflow-hidden" aria-hidden="true">
+                <div className="absolute left-0 right-0 border-t border-emerald-400/40" style={{ top: 'var(--horizon-y, 50%)' }} />
+                <div className="absolute top-16 left-1/2 -translate-x-1/2 w-96 h-8 overflow-hidden border-b border-white/20 font-mono text-[10px] text-gray-300">
+                    <div className="absolute top-0 left-1/2 h-full" style={{ transform: `translateX(calc(var(--heading, 0) * ${-COMPASS_PX_PER_DEG}px))` }}>
+                        {COMPASS_TICKS.map(deg => {
+                            const bearing = (deg + 360) % 360;
+                            const point = COMPASS_POINTS[bearing];
+                            return (
+                                <div key={deg} className="absolute bottom-0 -translate-x-1/2 flex flex-col items-center" style={{ left: deg * COMPASS_PX_PER_DEG }}>
+                                    <span className={point?.length === 1 ? 'text-white font-bold' : ''}>{point ?? (bearing % 45 === 0 ? '' : bearing)}</span>
+                                    <span className="w-px h-2 bg-white/40" />
+                                </div>
+                            );
+                        })}
+                    </div>
+                    <div className="absolute top-0 left-1/2 -translate-x-1/2 w-0 h-0 border-x-4 border-x-transparent border-t-4 border-t-emerald-400" />
+                </div>
+            </div>
+        )}
+
+        {/* Performance Overlay */}
+        {settings.showStats && stats && (
+            <div className="absolute bottom-16 right-4 z-10 px-3 py-2 bg-black/60 backdrop-blur-md rounded-lg border border-white/10 font-mono text-[10px] text-gray-300 pointer-events-none tabular-nums" aria-hidden="true">
+                <div><span className="text-white">{Math.round(stats.fps)}</span> FPS</div>
+                <div>{stats.drawCalls} draw calls</div>
+                <div>{(stats.triangles / 1000).toFixed(1)}k tris · {(stats.points / 1000).toFixed(1)}k points</div>
+                <div className="text-gray-400">{stats.quality.toUpperCase()} · {stats.pixelRatio}× pixels</div>
+            </div>
+        )}
+
         {/* Planet Labels */}
         {PLANETS.map(p => (
-            <div 
-                key={p.id} 
+            <div
+                key={p.id}
                 ref={(el) => { labelRefs.current[p.id] = el; }}
                 className="absolute text-white text-[10px] md:text-xs font-bold pointer-events-none transition-opacity duration-300 uppercase tracking-widest"
-                style={{ 
-                    opacity: 0, 
-                    textShadow: '0 0 4px #000, 0 0 8px #000', 
+                style={{
+                    opacity: 0,
+                    textShadow: '0 0 4px #000, 0 0 8px #000',
                     top: 0, left: 0,
                     transform: 'translate(-50%, -100%)', // Centered above
                     marginTop: '-10px'
@@ -923,31 +228,4 @@ const SolarSystem: React.FC<SolarSystemProps> = ({ onPlanetSelect, selectedPlane
   );
 };
 
-function createOrbit(radius: number, scene: THREE.Scene): THREE.Line | undefined {
-    if (radius <= 0) return undefined;
-    const segments = 128;
-    const geometry = new THREE.BufferGeometry();
-    const positions = new Float32Array((segments + 1) * 3);
-    for (let i = 0; i <= segments; i++) {
-        const theta = (i / segments) * Math.PI * 2;
-        positions[i * 3] = Math.cos(theta) * radius;
-        positions[i * 3 + 1] = 0;
-        positions[i * 3 + 2] = Math.sin(theta) * radius;
-    }
-    geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
-    const material = new THREE.LineDashedMaterial({
-      color: 0xffffff,
-      linewidth: 1,
-      scale: 1,
-      dashSize: 3,
-      gapSize: 2,
-      opacity: 0.3, // Increased opacity for better gravimetric visualization
-      transparent: true
-    });
-    const orbit = new THREE.Line(geometry, material);
-    orbit.computeLineDistances();
-    scene.add(orbit);
-    return orbit;
-}
-
-export default SolarSystem;
\ No newline at end of file
+export default SolarSystem;
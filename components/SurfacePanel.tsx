@@ -0,0 +1,92 @@
+import React, { useEffect, useState } from 'react';
+import { PLANETS } from '../constants';
+import { SurfaceAltitude, SurfaceView } from '../engine/HeliosEngine';
+import { SimulationClock } from '../utils/simulationClock';
+import { SkyObject, formatAngularSize, skyFrom } from '../utils/sky';
+import { UnitSystem, formatQuantity } from '../utils/units';
+import ToggleGroup from './ToggleGroup';
+import { X } from 'lucide-react';
+
+interface SurfacePanelProps {
+  view: SurfaceView;
+  clock: SimulationClock;
+  units: UnitSystem;
+  onAltitudeChange: (altitude: SurfaceAltitude) => void;
+  onClose: () => void;
+}
+
+const ALTITUDES: { id: SurfaceAltitude; label: string }[] = [
+  { id: 'ground', label: 'SURFACE' },
+  { id: 'orbit', label: 'LOW ORBIT' },
+];
+
+const LISTED = 6;
+const REFRESH_MS = 500; // The clock ticks every frame; the list needn't
+
+/** Companion to the surface view: what's largest in the sky, at true scale, and the way back out. */
+const SurfacePanel: React.FC<SurfacePanelProps> = ({ view, clock, units, onAltitudeChange, onClose }) => {
+  const body = PLANETS.find(p => p.id === view.bodyId)!;
+  const [sky, setSky] = useState<SkyObject[]>(() => skyFrom(body, clock.daysSinceJ2000).slice(0, LISTED));
+
+  useEffect(() => {
+    let last = 0;
+    setSky(skyFrom(body, clock.daysSinceJ2000).slice(0, LISTED));
+    return clock.subscribe((c) => {
+      const now = performance.now();
+      if (now - last < REFRESH_MS) return;
+      last = now;
+      setSky(skyFrom(body, c.daysSinceJ2000).slice(0, LISTED));
+    });
+  }, [clock, body]);
+
+  // Escape steps back out to the orbit view, leaving the HUD open
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== 'Escape') return;
+      e.stopPropagation();
+      onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [onClose]);
+
+  return (
+    <div
+      className="absolute bottom-20 left-4 w-80 z-20 p-4 bg-black/80 backdrop-blur-md border border-gray-700 rounded-xl shadow-2xl font-mono text-xs"
+      role="region"
+      aria-label={`Sky from ${body.name}`}
+    >
+      <button
+        onClick={onClose}
+        className="absolute top-2 right-2 p-1 text-gray-400 hover:text-white transition-colors"
+        aria-label="Leave surface view"
+      >
+        <X size={20} />
+      </button>
+      <h3 className="text-gray-400 tracking-widest mb-3">SKY FROM {body.name.toUpperCase()}</h3>
+      <div className="mb-3">
+        <ToggleGroup options={ALTITUDES} value={view.altitude} onChange={onAltitudeChange} label="Altitude" />
+      </div>
+
+      <table className="w-full mb-3">
+        <caption className="text-left text-gray-400 mb-1">Largest in the sky, at true size</caption>
+        <tbody>
+          {sky.map(({ body: object, distanceKm, angularDiameterDeg }) => (
+            <tr key={object.id}>
+              <td className="py-0.5">
+                <span className="inline-block w-2 h-2 rounded-full mr-2" style={{ backgroundColor: object.color }} />
+                {object.name}
+              </td>
+              <td className="text-right">{formatAngularSize(angularDiameterDeg)}</td>
+              <td className="text-right text-gray-400">{formatQuantity(distanceKm, 'length', units)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <p className="text-gray-400">Drag or WASD to look around, scroll or Q/E to zoom, R to face east again. Esc leaves.</p>
+    </div>
+  );
+};
+
+export default SurfacePanel;
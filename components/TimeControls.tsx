@@ -0,0 +1,91 @@
+import React, { useEffect, useState } from 'react';
+import { SimulationClock, TIME_RATES } from '../utils/simulationClock';
+import { Play, Pause, SkipBack, SkipForward, Rewind, Calendar } from 'lucide-react';
+
+interface TimeControlsProps {
+  clock: SimulationClock;
+}
+
+const formatDate = (date: Date) => {
+  const iso = date.toISOString();
+  return `${iso.slice(0, 10)} ${iso.slice(11, 16)} UTC`;
+};
+
+const TimeControls: React.FC<TimeControlsProps> = ({ clock }) => {
+  const [dateLabel, setDateLabel] = useState(() => formatDate(clock.date));
+  const [paused, setPaused] = useState(clock.isPaused);
+  const [reversed, setReversed] = useState(clock.isReversed);
+  const [rate, setRate] = useState(clock.daysPerSecond);
+
+  useEffect(() => {
+    // Primitive state only, so React skips renders when the visible minute hasn't changed
+    return clock.subscribe((c) => {
+      setDateLabel(formatDate(c.date));
+      setPaused(c.isPaused);
+      setReversed(c.isReversed);
+      setRate(c.daysPerSecond);
+    });
+  }, [clock]);
+
+  const buttonClass = "p-2 rounded-full hover:bg-white/20 transition-all";
+
+  return (
+    <div className="absolute bottom-4 left-1/2 -translate-x-1/2 z-10 flex items-center gap-2 px-4 py-2 bg-black/60 backdrop-blur-md rounded-full border border-white/10 font-mono text-xs">
+      <Calendar size={14} className="text-blue-400" />
+      <input
+        type="date"
+        className="bg-transparent outline-none tracking-wider [color-scheme:dark]"
+        value={dateLabel.slice(0, 10)}
+        onChange={(e) => {
+          // Keep the current time of day when jumping to another date
+          if (e.target.value) clock.setDate(new Date(`${e.target.value}T${clock.date.toISOString().slice(11)}`));
+        }}
+        aria-label="Simulation date"
+      />
+      <span className="w-20 tracking-wider">{dateLabel.slice(11)}</span>
+
+      <button
+        className={`${buttonClass} ${reversed ? 'text-blue-400' : ''}`}
+        onClick={() => clock.setReversed(!reversed)}
+        title="Reverse time"
+        aria-pressed={reversed}
+      >
+        <Rewind size={14} />
+      </button>
+      <button className={buttonClass} onClick={() => clock.step(-rate)} title="Step back">
+        <SkipBack size={14} />
+      </button>
+      <button
+        className={buttonClass}
+        onClick={() => clock.setPaused(!paused)}
+        title={paused ? 'Play' : 'Pause'}
+      >
+        {paused ? <Play size={14} /> : <Pause size={14} />}
+      </button>
+      <button className={buttonClass} onClick={() => clock.step(rate)} title="Step forward">
+        <SkipForward size={14} />
+      </button>
+
+      <select
+        className="bg-transparent border border-white/20 rounded px-2 py-1 text-xs outline-none"
+        value={rate}
+        onChange={(e) => clock.setRate(Number(e.target.value))}
+        aria-label="Time warp"
+      >
+        {TIME_RATES.map(r => (
+          <option key={r.label} value={r.daysPerSecond} className="bg-gray-900">{r.label}</option>
+        ))}
+      </select>
+
+      <button
+        className="px-2 py-1 rounded border border-white/20 hover:bg-white/20 transition-all tracking-widest"
+        onClick={() => clock.setDate(new Date())}
+        title="Jump to the current date"
+      >
+        NOW
+      </button>
+    </div>
+  );
+};
+
+export default TimeControls;
@@ -0,0 +1,27 @@
+import React from 'react';
+
+interface ToggleGroupProps<T extends string> {
+  options: readonly { id: T; label: string; title?: string }[];
+  value: T;
+  onChange: (value: T) => void;
+  label: string; // Accessible name for the group
+}
+
+/** A row of mutually exclusive buttons, e.g. LINEAR | LOG. */
+const ToggleGroup = <T extends string>({ options, value, onChange, label }: ToggleGroupProps<T>) => (
+  <div className="flex rounded border border-white/20 overflow-hidden font-mono text-xs" role="group" aria-label={label}>
+    {options.map(option => (
+      <button
+        key={option.id}
+        className={`px-2 py-1 tracking-widest transition-all ${value === option.id ? 'bg-blue-500/40' : 'hover:bg-white/20'}`}
+        onClick={() => onChange(option.id)}
+        aria-pressed={value === option.id}
+        title={option.title}
+      >
+        {option.label}
+      </button>
+    ))}
+  </div>
+);
+
+export default ToggleGroup;
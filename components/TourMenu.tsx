@@ -0,0 +1,120 @@
+import React, { useEffect, useState } from 'react';
+import { PLANETS } from '../constants';
+import { BUNDLED_TOURS, Tour, TourValidationError, loadTourFromFile, loadTourFromUrl } from '../utils/tour';
+import { Map as MapIcon, Upload, Link } from 'lucide-react';
+
+interface TourMenuProps {
+  onStart: (tour: Tour) => void;
+  linkedUrl?: string | null; // From ?tour=; loaded on mount, like a URL typed into the menu
+}
+
+const BODY_IDS = PLANETS.map(p => p.id);
+
+const TourMenu: React.FC<TourMenuProps> = ({ onStart, linkedUrl }) => {
+  const [open, setOpen] = useState(false);
+  const [url, setUrl] = useState(linkedUrl ?? '');
+  const [error, setError] = useState<string[] | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const start = (tour: Tour) => {
+    setError(null);
+    setOpen(false);
+    onStart(tour);
+  };
+
+  const load = async (loader: () => Promise<Tour>) => {
+    setLoading(true);
+    setError(null);
+    try {
+      start(await loader());
+    } catch (e) {
+      setError(e instanceof TourValidationError ? e.issues : [(e as Error).message]);
+      // A linked tour loads with the menu closed; open it so the errors show
+      setOpen(true);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (linkedUrl) load(() => loadTourFromUrl(linkedUrl, BODY_IDS));
+  }, [linkedUrl]);
+
+  return (
+    <div className="flex flex-col items-start gap-2">
+      <button
+        className={`flex items-center gap-2 px-4 py-2 backdrop-blur-md rounded-full transition-all border border-white/10 ${open ? 'bg-blue-500/40' : 'bg-white/10 hover:bg-white/20'}`}
+        onClick={() => setOpen(!open)}
+        aria-expanded={open}
+        aria-controls="tour-menu"
+        title="Guided tours"
+      >
+        <MapIcon size={16} />
+        <span className="text-xs font-bold tracking-widest">TOURS</span>
+      </button>
+
+      {open && (
+        <div id="tour-menu" className="w-72 p-4 bg-black/60 backdrop-blur-md rounded-xl border border-white/10 font-mono text-xs">
+          <h3 className="text-gray-400 tracking-widest mb-2">GUIDED TOURS</h3>
+          <div className="flex flex-col gap-1 mb-4">
+            {BUNDLED_TOURS.map(tour => (
+              <button
+                key={tour.title}
+                className="text-left p-2 rounded hover:bg-white/10 transition-all"
+                onClick={() => start(tour)}
+              >
+                <div className="font-bold text-blue-300">{tour.title}</div>
+                {tour.description && <div className="text-gray-400">{tour.description}</div>}
+              </button>
+            ))}
+          </div>
+
+          <h3 className="text-gray-400 tracking-widest mb-2">LOAD YOUR OWN</h3>
+          <label className="flex items-center gap-2 px-2 py-1 mb-2 rounded border border-white/20 hover:bg-white/20 transition-all cursor-pointer w-fit">
+            <Upload size={12} />
+            <span className="tracking-widest">FILE…</span>
+            <input
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                e.target.value = ''; // Allow loading the same file again after fixing it
+                if (file) load(() => loadTourFromFile(file, BODY_IDS));
+              }}
+            />
+          </label>
+          <form
+            className="flex items-center gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (url.trim()) load(() => loadTourFromUrl(url.trim(), BODY_IDS));
+            }}
+          >
+            <Link size={12} className="text-gray-400 shrink-0" />
+            <input
+              type="url"
+              className="flex-1 min-w-0 bg-transparent border border-white/20 rounded px-2 py-1 outline-none"
+              placeholder="https://…/tour.json"
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+              aria-label="Tour URL"
+            />
+            <button type="submit" className="px-2 py-1 rounded border border-white/20 hover:bg-white/20 transition-all tracking-widest" disabled={loading}>
+              LOAD
+            </button>
+          </form>
+
+          {loading && <p className="mt-2 text-gray-400">Loading…</p>}
+          {error && (
+            <ul className="mt-2 text-red-400 list-disc list-inside max-h-32 overflow-y-auto" role="alert">
+              {error.map(issue => <li key={issue}>{issue}</li>)}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TourMenu;
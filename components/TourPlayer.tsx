@@ -0,0 +1,83 @@
+import React, { useEffect, useState } from 'react';
+import { PLANETS } from '../constants';
+import { Tour } from '../utils/tour';
+import { Play, Pause, SkipBack, SkipForward, X } from 'lucide-react';
+
+interface TourPlayerProps {
+  tour: Tour;
+  index: number;
+  onIndexChange: (index: number) => void;
+  onClose: () => void;
+}
+
+const TICK_MS = 100;
+
+const TourPlayer: React.FC<TourPlayerProps> = ({ tour, index, onIndexChange, onClose }) => {
+  const [playing, setPlaying] = useState(true);
+  const [elapsed, setElapsed] = useState(0); // Seconds into the current step
+  const step = tour.steps[index];
+  const isLast = index === tour.steps.length - 1;
+
+  // Every step starts from the beginning, however it was reached
+  useEffect(() => setElapsed(0), [tour, index]);
+
+  useEffect(() => {
+    if (!playing) return;
+    const timer = window.setInterval(() => setElapsed(e => e + TICK_MS / 1000), TICK_MS);
+    return () => window.clearInterval(timer);
+  }, [playing]);
+
+  useEffect(() => {
+    if (elapsed < step.duration) return;
+    if (isLast) setPlaying(false);
+    else onIndexChange(index + 1);
+  }, [elapsed]);
+
+  const title = step.title ?? PLANETS.find(p => p.id === step.body)?.name ?? tour.title;
+  const buttonClass = "p-2 rounded-full hover:bg-white/20 transition-all disabled:opacity-30 disabled:hover:bg-transparent";
+
+  return (
+    <div className="absolute bottom-20 left-10 max-w-sm z-10 p-4 bg-black/60 backdrop-blur-md rounded-xl border border-white/10" role="region" aria-label={`Tour: ${tour.title}`}>
+      <div className="flex items-center justify-between mb-1 font-mono text-xs text-gray-400 tracking-widest">
+        <span>{tour.title.toUpperCase()} · {index + 1}/{tour.steps.length}</span>
+        <button className="hover:text-white transition-colors" onClick={onClose} title="End tour">
+          <X size={14} />
+        </button>
+      </div>
+
+      <h2 className="text-2xl font-black text-transparent bg-clip-text bg-gradient-to-r from-blue-400 to-purple-600 mb-2">
+        {title}
+      </h2>
+      <p className="text-gray-300 text-sm mb-3" aria-live="polite">{step.caption}</p>
+
+      <div className="h-0.5 bg-white/10 rounded mb-2 overflow-hidden">
+        <div className="h-full bg-blue-400 transition-[width] duration-100 ease-linear" style={{ width: `${Math.min(1, elapsed / step.duration) * 100}%` }} />
+      </div>
+
+      <div className="flex items-center gap-1">
+        <button className={buttonClass} onClick={() => onIndexChange(index - 1)} disabled={index === 0} title="Previous step">
+          <SkipBack size={14} />
+        </button>
+        <button
+          className={buttonClass}
+          onClick={() => {
+            // Replaying a finished tour starts it over
+            if (!playing && isLast && elapsed >= step.duration) {
+              setElapsed(0);
+              onIndexChange(0);
+            }
+            setPlaying(!playing);
+          }}
+          title={playing ? 'Pause' : 'Play'}
+        >
+          {playing ? <Pause size={14} /> : <Play size={14} />}
+        </button>
+        <button className={buttonClass} onClick={() => onIndexChange(index + 1)} disabled={isLast} title="Next step">
+          <SkipForward size={14} />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default TourPlayer;
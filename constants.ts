@@ -1,105 +1,64 @@
 import { PlanetData } from './types';
+import { loadCatalog } from './utils/catalog';
+import { TextureManifest, textureSources } from './utils/assets';
+import { perihelionDistance } from './utils/kepler';
+import { UnitSystem, formatNumber, formatQuantity } from './utils/units';
+import catalog from './data/catalog.json';
+import textureManifest from './data/textures.json';
 
 const TEXTURE_BASE = 'https://s3-us-west-2.amazonaws.com/s.cdpn.io/17271';
 
-export const PLANETS: PlanetData[] = [
-  {
-    id: 'sun',
-    name: 'Sun',
-    color: '#fbbf24', // Amber-400
-    radius: 5,
-    distance: 0,
-    speed: 0,
-    description: 'The star around which the earth orbits.',
-    textureUrl: `${TEXTURE_BASE}/sun.jpg`,
-    details: { gravity: 274, dayLength: '-', yearLength: '-', temp: '5500°C' }
-  },
-  {
-    id: 'mercury',
-    name: 'Mercury',
-    color: '#a3a3a3', // Neutral-400
-    radius: 0.8,
-    distance: 10,
-    speed: 0.02,
-    description: 'The smallest planet in the Solar System and the closest to the Sun.',
-    textureUrl: `${TEXTURE_BASE}/mercury.jpg`,
-    details: { gravity: 3.7, dayLength: '58.6d', yearLength: '88d', temp: '167°C' }
-  },
-  {
-    id: 'venus',
-    name: 'Venus',
-    color: '#fde047', // Yellow-300
-    radius: 1.5,
-    distance: 15,
-    speed: 0.015,
-    description: 'The second planet from the Sun. It has a thick atmosphere.',
-    textureUrl: `${TEXTURE_BASE}/venus.jpg`,
-    details: { gravity: 8.87, dayLength: '243d', yearLength: '225d', temp: '464°C' }
-  },
-  {
-    id: 'earth',
-    name: 'Earth',
-    color: '#3b82f6', // Blue-500
-    radius: 1.6,
-    distance: 22,
-    speed: 0.01,
-    description: 'Our home, the third planet from the Sun.',
-    textureUrl: `${TEXTURE_BASE}/earth.jpg`,
-    details: { gravity: 9.8, dayLength: '24h', yearLength: '365.25d', temp: '15°C' }
-  },
-  {
-    id: 'mars',
-    name: 'Mars',
-    color: '#ef4444', // Red-500
-    radius: 1.2,
-    distance: 30,
-    speed: 0.008,
-    description: 'The fourth planet from the Sun and the second-smallest planet.',
-    textureUrl: `${TEXTURE_BASE}/mars.jpg`,
-    details: { gravity: 3.71, dayLength: '24h 37m', yearLength: '687d', temp: '-63°C' }
-  },
-  {
-    id: 'jupiter',
-    name: 'Jupiter',
-    color: '#d97706', // Amber-600
-    radius: 3.5,
-    distance: 45,
-    speed: 0.004,
-    description: 'The largest planet in the Solar System.',
-    textureUrl: `${TEXTURE_BASE}/jupiter.jpg`,
-    details: { gravity: 24.79, dayLength: '9h 56m', yearLength: '12y', temp: '-108°C' }
-  },
-  {
-    id: 'saturn',
-    name: 'Saturn',
-    color: '#eab308', // Yellow-500
-    radius: 3,
-    distance: 60,
-    speed: 0.003,
-    description: 'The sixth planet from the Sun and the second-largest planet.',
-    textureUrl: `${TEXTURE_BASE}/saturn.jpg`,
-    details: { gravity: 10.44, dayLength: '10h 42m', yearLength: '29y', temp: '-139°C' }
-  },
-  {
-    id: 'uranus',
-    name: 'Uranus',
-    color: '#22d3ee', // Cyan-400
-    radius: 2.2,
-    distance: 75,
-    speed: 0.002,
-    description: 'The seventh planet from the Sun.',
-    textureUrl: `${TEXTURE_BASE}/uranus.jpg`,
-    details: { gravity: 8.69, dayLength: '17h 14m', yearLength: '84y', temp: '-197°C' }
-  },
-  {
-    id: 'neptune',
-    name: 'Neptune',
-    color: '#3b82f6', // Blue-600
-    radius: 2.1,
-    distance: 90,
-    speed: 0.001,
-    description: 'The eighth and farthest-known Solar planet from the Sun.',
-    textureUrl: `${TEXTURE_BASE}/neptune.jpg`,
-    details: { gravity: 11.15, dayLength: '16h 6m', yearLength: '165y', temp: '-201°C' }
-  },
-];
+// Bodies and their features come from data/catalog.json, validated at load time.
+// Orbital elements: J2000.0 mean elements and rates per Julian century from
+// Standish, "Keplerian Elements for Approximate Positions of the Major Planets" (1800–2050 AD).
+// Earth's entry is the Earth–Moon barycentre.
+// Texture images come from the remote bucket; data/textures.json can list
+// bundled copies to try first, but none ship by default. A body whose image
+// doesn't load, or that has none, gets a procedural surface.
+export const PLANETS: PlanetData[] = loadCatalog(catalog, textureSources(textureManifest as TextureManifest, TEXTURE_BASE));
+
+/** What kind of body this is, in words: "moon of Jupiter", "dwarf planet". */
+export const bodyKindLabel = (body: PlanetData): string => {
+  if (body.parent) {
+    const parent = PLANETS.find(p => p.id === body.parent);
+    return `moon of ${parent?.name ?? body.parent}`;
+  }
+  return body.kind === 'dwarf' ? 'dwarf planet' : body.kind;
+};
+
+/** A short description for announcements, e.g. "Io, moon of Jupiter". */
+export const describeBody = (body: PlanetData): string => `${body.name}, ${bodyKindLabel(body)}`;
+
+/**
+ * How far out the body orbits, as the HUD shows it: from its parent for a moon,
+ * at perihelion for a comet, otherwise its mean distance from the Sun in AU.
+ */
+export const formatBodyDistance = (body: PlanetData, units: UnitSystem): string => {
+  if (body.satelliteOrbit) return formatQuantity(body.satelliteOrbit.semiMajorAxisKm, 'length', units);
+  const au = body.kind === 'comet' && body.orbit ? perihelionDistance(body.orbit) : body.orbit?.semiMajorAxis ?? 0;
+  return `${formatNumber(au, units === 'scientific' ? 'scientific' : 'metric')} AU`;
+};
+
+/**
+ * Key figures for announcements, in the viewer's units: "radius 3,390 km,
+ * 1.524 AU from the Sun, orbital period 687 d, surface gravity 3.71 m/s²".
+ */
+export const describeBodyStats = (body: PlanetData, units: UnitSystem): string => {
+  const { details } = body;
+  const parent = body.parent ? PLANETS.find(p => p.id === body.parent) : undefined;
+  const parts = [`radius ${formatQuantity(body.radiusKm, 'length', units)}`];
+  if (body.satelliteOrbit) {
+    parts.push(`${formatBodyDistance(body, units)} from ${parent?.name ?? body.parent}`);
+  } else if (body.orbit) {
+    parts.push(body.kind === 'comet' ? `perihelion ${formatBodyDistance(body, units)}` : `${formatBodyDistance(body, units)} from the Sun`);
+  }
+  if (body.orbit && body.orbit.eccentricity > 1) {
+    parts.push('unbound orbit');
+  } else if (details.yearLengthDays) {
+    parts.push(`orbital period ${formatQuantity(details.yearLengthDays * 86400, 'duration', units)}`);
+  }
+  if (details.gravity !== undefined) {
+    parts.push(`surface gravity ${formatQuantity(details.gravity, 'acceleration', units)}`);
+  }
+  return parts.join(', ');
+};
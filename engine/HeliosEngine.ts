@@ -0,0 +1,825 @@
+import * as THREE from 'three';
+import { OrbitControls } from 'three/addons/controls/OrbitControls.js';
+import gsap from 'gsap';
+import { PLANETS } from '../constants';
+import { CameraView, PlanetData, Vector3 } from '../types';
+import { SimulationClock } from '../utils/simulationClock';
+import { ScaleBlend, ScaleMode, blendScale, sceneRadius } from '../utils/scale';
+import { QualityPreset, SceneSettings } from '../utils/settings';
+import { FrameState, SceneLayer } from './types';
+import { createParticleTexture } from './textures';
+import { AutoQuality, QUALITY_PROFILES, QualityLevel } from './quality';
+import { orbitAngle } from './placement';
+import { StarfieldLayer } from './layers/StarfieldLayer';
+import { NebulaLayer } from './layers/NebulaLayer';
+import { AsteroidBeltLayer, KuiperBeltLayer } from './layers/BeltLayer';
+import { SunEffectsLayer } from './layers/SunEffectsLayer';
+import { MagneticFieldLayer } from './layers/MagneticFieldLayer';
+import { GridLayer } from './layers/GridLayer';
+import { BodiesLayer } from './layers/BodiesLayer';
+import { CometLayer } from './layers/CometLayer';
+
+export interface HeliosEngineOptions {
+  clock: SimulationClock;
+  bodies?: PlanetData[]; // Defaults to the bundled catalog
+  scaleMode?: ScaleMode;
+  visitorComets?: boolean;
+  settings?: SceneSettings;
+  reducedMotion?: boolean;
+  followMode?: FollowMode;
+  onSelect?: (id: string) => void; // A body was clicked
+  onCameraChange?: (view: CameraView) => void; // The camera came to rest after a drag or flight
+  onStats?: (stats: RenderStats) => void; // About twice a second while `showStats` is set
+}
+
+/** What the renderer is doing, for the performance overlay. Counts are for one frame. */
+export interface RenderStats {
+  fps: number;
+  drawCalls: number;
+  triangles: number;
+  points: number;
+  quality: QualityLevel; // The level in effect, which auto mode picks
+  pixelRatio: number;
+}
+
+const HOME_POSITION = new THREE.Vector3(0, 80, 160);
+const FOV = 60;
+const DEG = Math.PI / 180;
+// Keyboard orbiting: radians per second, and zoom factor e^ZOOM_RATE per second
+const ORBIT_RATE = 1.2;
+const ZOOM_RATE = 1.5;
+const STATS_SECONDS = 0.5;
+
+/** Held-key camera motion, each axis in -1..1. */
+export interface OrbitInput {
+  azimuth: number; // Around the target's vertical axis
+  polar: number; // Towards (-) or away from (+) the top view
+  zoom: number; // In (-) or out (+)
+}
+
+/**
+ * How the camera tracks the selected body: not at all, translating with it
+ * (axes fixed to the stars), or also turning about the body's pole with its
+ * orbit so the body it circles stays in the same place on screen.
+ */
+export type FollowMode = 'off' | 'heliocentric' | 'body';
+
+const UP = new THREE.Vector3(0, 1, 0);
+
+// Camera glide between followed bodies; both ends move, so it blends rather than tweening to a point
+interface Handoff {
+  state: { progress: number };
+  fromTarget: THREE.Vector3;
+  fromOffset: THREE.Vector3;
+  toOffset: THREE.Vector3;
+  tween: gsap.core.Tween;
+}
+
+export type SurfaceAltitude = 'ground' | 'orbit';
+
+/** Height above the surface for each surface-view altitude, in body radii. */
+export const SURFACE_ALTITUDES: Record<SurfaceAltitude, number> = { ground: 0.002, orbit: 0.1 };
+
+/** Where the camera stands in the surface view. Latitude and longitude are on the body's own grid. */
+export interface SurfaceView {
+  bodyId: string;
+  altitude: SurfaceAltitude;
+  latitudeDeg?: number;
+  longitudeDeg?: number;
+}
+
+// Looking around in the surface view, in degrees: heading clockwise from north, elevation above the horizon
+const DEFAULT_LOOK = { heading: 90, elevation: 15 };
+const MAX_ELEVATION = 85;
+// Degrees of look per pixel dragged, at the default field of view
+const DRAG_RATE = 0.2;
+
+/** The overview of the whole system the camera starts from and resets to. */
+export const HOME_VIEW: CameraView = {
+  position: { x: HOME_POSITION.x, y: HOME_POSITION.y, z: HOME_POSITION.z },
+  target: { x: 0, y: 0, z: 0 },
+};
+
+/**
+ * The solar system scene, independent of any UI framework. Constructing it
+ * builds the scene graph and layers only; `mount` adds the renderer, controls
+ * and animation loop, so `update` can also be driven without a DOM.
+ */
+export class HeliosEngine {
+  readonly scene = new THREE.Scene();
+  readonly camera = new THREE.PerspectiveCamera(FOV, 1, 0.1, 3000);
+  readonly clock: SimulationClock;
+
+  readonly starfield = new StarfieldLayer();
+  readonly nebulae = new NebulaLayer();
+  readonly asteroidBelt = new AsteroidBeltLayer();
+  readonly kuiperBelt = new KuiperBeltLayer();
+  readonly sunEffects = new SunEffectsLayer();
+  readonly magneticField = new MagneticFieldLayer();
+  readonly grid = new GridLayer();
+  readonly bodies = new BodiesLayer();
+  readonly comet = new CometLayer();
+
+  private readonly layers: SceneLayer[];
+  private readonly particleTexture: THREE.Texture | null;
+  private readonly sunLight: THREE.PointLight;
+  private readonly blend: ScaleBlend;
+  private scaleDirty = true;
+  private elapsed = 0;
+  private selectedId: string | null = null;
+  private hoveredId: string | null = null;
+  private keyboardFocusId: string | null = null;
+  private allLabels = false;
+  private reducedMotion = false;
+  private orbitInput: OrbitInput = { azimuth: 0, polar: 0, zoom: 0 };
+  private readonly spherical = new THREE.Spherical();
+  private readonly orbitOffset = new THREE.Vector3();
+  private followMode: FollowMode = 'off';
+  private followId: string | null = null;
+  private followAngle: number | null = null; // Null until the followed body's first frame
+  private handoff: Handoff | null = null;
+  private readonly followCenter = new THREE.Vector3();
+  private readonly followAxis = new THREE.Vector3();
+  private surface: SurfaceView | null = null;
+  private look = { ...DEFAULT_LOOK };
+  private viewBeforeSurface: CameraView | null = null; // Restored when the surface view ends
+  private horizon: HTMLElement | null = null;
+  // Scratch vectors for the surface frame: local up, north, east and the look direction
+  private readonly surfaceUp = new THREE.Vector3();
+  private readonly surfaceNorth = new THREE.Vector3();
+  private readonly surfaceEast = new THREE.Vector3();
+  private readonly surfaceLook = new THREE.Vector3();
+  private qualityPreset: QualityPreset | null = null; // Null until the first settings arrive
+  private qualityLevel: QualityLevel = 'high';
+  private autoQuality: AutoQuality | null = null;
+  private starDensity = 1;
+  private showStats = false;
+  private statsFrames = 0;
+  private statsSeconds = 0;
+  private readonly onSelect?: (id: string) => void;
+  private readonly onCameraChange?: (view: CameraView) => void;
+  private readonly onStats?: (stats: RenderStats) => void;
+
+  // Set while mounted
+  private container: HTMLElement | null = null;
+  private renderer: THREE.WebGLRenderer | null = null;
+  private controls: OrbitControls | null = null;
+  private animationFrame = 0;
+  private readonly timer = new THREE.Clock();
+  private readonly raycaster = new THREE.Raycaster();
+  private readonly pointer = new THREE.Vector2(-1, -1);
+  private readonly labels = new Map<string, HTMLElement>();
+
+  constructor(options: HeliosEngineOptions) {
+    this.clock = options.clock;
+    this.onSelect = options.onSelect;
+    this.onCameraChange = options.onCameraChange;
+    this.onStats = options.onStats;
+    const mode = options.scaleMode ?? 'artistic';
+    this.blend = { from: mode, to: mode, progress: 1 };
+    this.comet.enabled = options.visitorComets ?? false;
+    this.followMode = options.followMode ?? 'off';
+
+    // --- Scene Setup ---
+    this.scene.background = new THREE.Color(0x020205);
+    this.scene.fog = new THREE.FogExp2(0x020205, 0.002);
+    this.camera.position.copy(HOME_POSITION);
+
+    // --- Lighting ---
+    // Sun PointLight - Source of shadows
+    const sunLight = new THREE.PointLight(0xffaa33, 3.0, 800);
+    sunLight.position.set(0, 0, 0);
+    sunLight.castShadow = true;
+    sunLight.shadow.mapSize.width = 2048;
+    sunLight.shadow.mapSize.height = 2048;
+    sunLight.shadow.camera.near = 0.1;
+    sunLight.shadow.camera.far = 500;
+    sunLight.shadow.bias = -0.0001; // Reduce shadow acne
+    sunLight.shadow.radius = 2; // Soften shadows
+    this.scene.add(sunLight);
+    this.sunLight = sunLight;
+
+    // Ambient Light - Brightened to remove "too darken textures"
+    this.scene.add(new THREE.AmbientLight(0xffffff, 0.5));
+
+    // Hemisphere Light - Fill light
+    this.scene.add(new THREE.HemisphereLight(0x444466, 0x080820, 0.5));
+
+    // --- Layers ---
+    this.particleTexture = createParticleTexture();
+    this.layers = [
+      this.nebulae,
+      this.asteroidBelt,
+      this.kuiperBelt,
+      this.starfield,
+      this.sunEffects,
+      this.magneticField,
+      this.grid,
+      this.bodies,
+      this.comet,
+    ];
+    const context = { scene: this.scene, bodies: options.bodies ?? PLANETS, particleTexture: this.particleTexture };
+    this.layers.forEach(layer => layer.init(context));
+    if (options.settings) this.applySettings(options.settings);
+    this.setReducedMotion(options.reducedMotion ?? false);
+    // Lay everything out once, so bodies can be selected before the first frame
+    this.update(0);
+  }
+
+  /** Attaches a renderer and controls to `container` and starts the animation loop. */
+  mount(container: HTMLElement) {
+    if (this.container) throw new Error('HeliosEngine is already mounted');
+    this.container = container;
+
+    // --- Renderer ---
+    const renderer = new THREE.WebGLRenderer({ antialias: true, alpha: true });
+    renderer.setPixelRatio(Math.min(window.devicePixelRatio, QUALITY_PROFILES[this.qualityLevel].maxPixelRatio));
+    renderer.shadowMap.enabled = true;
+    renderer.shadowMap.type = THREE.PCFSoftShadowMap;
+    renderer.toneMapping = THREE.ACESFilmicToneMapping;
+    renderer.toneMappingExposure = 1.3;
+    container.appendChild(renderer.domElement);
+    this.renderer = renderer;
+
+    // --- Controls ---
+    const controls = new OrbitControls(this.camera, renderer.domElement);
+    controls.enableDamping = true;
+    controls.dampingFactor = 0.05;
+    controls.minDistance = 5;
+    controls.maxDistance = 500;
+    controls.addEventListener('end', this.notifyCameraChange);
+    this.controls = controls;
+
+    this.resize();
+    this.scaleDirty = true;
+    container.addEventListener('pointermove', this.handlePointerMove);
+    container.addEventListener('pointerdown', this.handlePointerDown);
+    container.addEventListener('wheel', this.handleWheel, { passive: false });
+    window.addEventListener('resize', this.resize);
+
+    this.timer.start();
+    this.animationFrame = requestAnimationFrame(this.animate);
+  }
+
+  /** Stops the loop and frees every layer, the renderer and its canvas. */
+  dispose() {
+    gsap.killTweensOf([this.blend, this.camera.position]);
+    if (this.controls) gsap.killTweensOf(this.controls.target);
+    this.stopFollowing();
+    this.layers.forEach(layer => layer.dispose());
+    this.particleTexture?.dispose();
+
+    if (this.container) {
+      cancelAnimationFrame(this.animationFrame);
+      this.container.removeEventListener('pointermove', this.handlePointerMove);
+      this.container.removeEventListener('pointerdown', this.handlePointerDown);
+      this.container.removeEventListener('wheel', this.handleWheel);
+      window.removeEventListener('resize', this.resize);
+    }
+    this.controls?.removeEventListener('end', this.notifyCameraChange);
+    this.controls?.dispose();
+    if (this.renderer) {
+      this.renderer.domElement.remove();
+      this.renderer.dispose();
+    }
+    this.container = null;
+    this.renderer = null;
+    this.controls = null;
+  }
+
+  /** Advances the simulation clock and every layer by `delta` real seconds. */
+  update(delta: number) {
+    this.elapsed += delta;
+    const simDelta = this.clock.tick(delta);
+    const frame: FrameState = {
+      delta,
+      elapsed: this.elapsed,
+      simDelta,
+      simDays: this.clock.daysSinceJ2000,
+      blend: this.blend,
+      scaleChanged: this.scaleDirty,
+      reducedMotion: this.reducedMotion,
+    };
+
+    // Re-layout everything that depends on the scale mode while it animates
+    if (this.scaleDirty) {
+      this.scaleDirty = this.blend.progress < 1;
+      this.updateCameraLimits();
+    }
+
+    this.layers.forEach(layer => layer.update(frame));
+  }
+
+  setVisitorComets(enabled: boolean) {
+    this.comet.enabled = enabled;
+  }
+
+  /** Freezes twinkling and drops the glow and selection pulses. */
+  setReducedMotion(reduced: boolean) {
+    this.reducedMotion = reduced;
+    this.bodies.setReducedMotion(reduced);
+  }
+
+  /** Body picked with the keyboard but not yet selected; its label shows like a hover. */
+  setKeyboardFocus(id: string | null) {
+    this.keyboardFocusId = id;
+  }
+
+  /** Orbits the camera around its target while any axis is non-zero. */
+  setOrbitInput(input: OrbitInput) {
+    const wasMoving = this.isOrbiting();
+    this.orbitInput = input;
+    if (wasMoving && !this.isOrbiting()) this.notifyCameraChange();
+  }
+
+  /**
+   * Switches how the camera tracks the selected body. Turning following on
+   * glides the target onto the body while keeping the current distance.
+   */
+  setFollowMode(mode: FollowMode) {
+    this.followMode = mode;
+    if (mode === 'off') this.stopFollowing();
+    else if (!this.followId) this.resumeFollowing();
+  }
+
+  /**
+   * Stands the camera on (or just above) a body, looking out at the sky, or
+   * with null returns to the view from before. The spot turns with the body,
+   * so the Sun rises and sets as simulated time passes. Orbit controls are
+   * off meanwhile; dragging, WASD and the wheel look around instead.
+   */
+  setSurfaceView(view: SurfaceView | null) {
+    const controls = this.controls;
+    if (view && !this.surface) {
+      this.viewBeforeSurface = this.getCameraView();
+      this.stopFollowing();
+      gsap.killTweensOf(this.camera.position);
+      if (controls) gsap.killTweensOf(controls.target);
+      this.look = { ...DEFAULT_LOOK };
+    }
+    const leaving = !view && this.surface;
+    this.surface = view;
+    if (controls) controls.enabled = !view;
+    if (!leaving) return;
+
+    this.camera.up.set(0, 1, 0);
+    this.camera.fov = FOV;
+    this.updateCameraLimits();
+    if (this.viewBeforeSurface) this.flyCamera(this.viewBeforeSurface.position, this.viewBeforeSurface.target, 0);
+    this.viewBeforeSurface = null;
+    if (this.followMode !== 'off') this.resumeFollowing();
+  }
+
+  /**
+   * Registers the element behind the horizon and compass overlay. While in the
+   * surface view it gets `--heading` (degrees) and `--horizon-y` (pixels from
+   * the top) every frame.
+   */
+  setHorizon(element: HTMLElement | null) {
+    this.horizon = element;
+  }
+
+  /** Shows or hides the decorative layers and applies their parameters. */
+  applySettings({ layers, orbitOpacity, starDensity, gridRadiusAu, allLabels, quality, showStats }: SceneSettings) {
+    this.starfield.root.visible = layers.starfield;
+    this.nebulae.root.visible = layers.nebulae;
+    this.asteroidBelt.root.visible = layers.asteroidBelt;
+    this.kuiperBelt.root.visible = layers.kuiperBelt;
+    this.sunEffects.root.visible = layers.sunEffects;
+    this.magneticField.root.visible = layers.magneticField;
+    this.grid.root.visible = layers.grid;
+    this.bodies.setOrbitsVisible(layers.orbits);
+    this.bodies.setAuroraVisible(layers.aurora);
+
+    this.bodies.setOrbitOpacity(orbitOpacity);
+    this.starDensity = starDensity;
+    this.grid.setExtent(gridRadiusAu);
+    this.allLabels = allLabels;
+
+    if (quality !== this.qualityPreset) {
+      this.qualityPreset = quality;
+      // Auto starts no higher than medium and works up from there
+      this.autoQuality = quality === 'auto' ? new AutoQuality(this.qualityLevel === 'high' ? 'medium' : this.qualityLevel) : null;
+    }
+    this.applyQuality(this.autoQuality?.level ?? (quality as QualityLevel));
+
+    if (showStats !== this.showStats) {
+      this.showStats = showStats;
+      this.statsFrames = 0;
+      this.statsSeconds = 0;
+    }
+  }
+
+  /** Animates every scale-dependent layout to `mode` over two seconds. */
+  setScaleMode(mode: ScaleMode) {
+    const blend = this.blend;
+    if (blend.to === mode) return;
+    blend.from = blend.to;
+    blend.to = mode;
+    blend.progress = 0;
+    this.scaleDirty = true;
+    gsap.to(blend, {
+      progress: 1, duration: 2, ease: "power2.inOut",
+      onUpdate: () => { this.scaleDirty = true; }
+    });
+  }
+
+  /**
+   * Highlights a body and, unless `flyTo` is false, flies the camera to it.
+   * `offset` places the camera relative to the body in multiples of its
+   * radius. Null clears the highlight. In a follow mode the camera then
+   * stays locked to the body.
+   */
+  selectBody(id: string | null, { flyTo = true, offset }: { flyTo?: boolean; offset?: Vector3 } = {}) {
+    this.selectedId = id;
+    this.bodies.highlight(id);
+
+    // The surface view keeps its own camera; the selection only highlights
+    if (this.surface) return;
+
+    const target = id ? this.bodies.find(id) : undefined;
+    if (!target || this.followMode === 'off') this.stopFollowing();
+    else this.followId = id;
+    this.followAngle = null;
+    if (!target || !flyTo) return;
+
+    const radius = blendScale(this.blend, m => sceneRadius(target.data, m));
+    const minDistance = blendScale(this.blend, m => m === 'true' ? 0 : 10);
+    const cameraOffset = offset
+      ? new THREE.Vector3(offset.x, offset.y, offset.z).multiplyScalar(radius)
+      : new THREE.Vector3(4, 2, 4).multiplyScalar(radius);
+    // Small bodies are still framed from a comfortable distance
+    const minLength = minDistance * Math.hypot(4, 2, 4) / 4;
+    if (cameraOffset.length() < minLength) cameraOffset.setLength(minLength);
+
+    if (this.followId) {
+      this.handOff(cameraOffset, 1.5);
+      return;
+    }
+    const position = target.mesh.position;
+    this.flyCamera(cameraOffset.add(position), position.clone(), 1.5);
+  }
+
+  getCameraView(): CameraView {
+    const target = this.controls?.target ?? new THREE.Vector3();
+    return {
+      position: { x: this.camera.position.x, y: this.camera.position.y, z: this.camera.position.z },
+      target: { x: target.x, y: target.y, z: target.z },
+    };
+  }
+
+  /** Moves the camera to a saved view; a zero duration jumps there. A fixed view stops following. */
+  setCameraView(view: CameraView, duration = 1.5) {
+    // Kept for when the surface view ends
+    if (this.surface) {
+      this.viewBeforeSurface = view;
+      return;
+    }
+    this.stopFollowing();
+    this.flyCamera(view.position, view.target, duration);
+  }
+
+  /**
+   * Registers a DOM label that tracks a body on screen. Labels are positioned
+   * with transforms inside the mount container and shown on hover or selection,
+   * or always when every label is switched on.
+   */
+  setLabel(id: string, element: HTMLElement | null) {
+    if (element) this.labels.set(id, element);
+    else this.labels.delete(id);
+  }
+
+  resize = () => {
+    if (!this.container || !this.renderer) return;
+    const width = this.container.clientWidth;
+    const height = this.container.clientHeight;
+    this.camera.aspect = width / height;
+    this.camera.updateProjectionMatrix();
+    this.renderer.setSize(width, height);
+  };
+
+  private animate = () => {
+    this.animationFrame = requestAnimationFrame(this.animate);
+    // Real seconds drive decorative effects; simulated days drive every body
+    const delta = this.timer.getDelta();
+    this.update(delta);
+    this.applyOrbitInput(delta);
+    if (this.surface) {
+      this.updateSurface();
+    } else {
+      this.updateFollow();
+      // Skipped on the surface, where leftover damping would turn the camera back to the target
+      this.controls?.update();
+    }
+    this.updateHover();
+    this.updateLabels();
+    if (this.renderer) {
+      this.bodies.updateDetail(this.camera, this.renderer.domElement.height, QUALITY_PROFILES[this.qualityLevel]);
+      this.renderer.render(this.scene, this.camera);
+      this.measureFrame(delta);
+    }
+  };
+
+  /** Sizes the shadow map, particle counts and pixel ratio for a quality level. */
+  private applyQuality(level: QualityLevel) {
+    this.qualityLevel = level;
+    const profile = QUALITY_PROFILES[level];
+
+    const shadow = this.sunLight.shadow;
+    if (shadow.mapSize.x !== profile.shadowMapSize) {
+      shadow.mapSize.set(profile.shadowMapSize, profile.shadowMapSize);
+      // Reallocated at the new size on the next render
+      shadow.map?.dispose();
+      shadow.map = null;
+    }
+
+    this.starfield.setDensity(this.starDensity * profile.particles);
+    this.nebulae.setDensity(profile.particles);
+    this.asteroidBelt.setDensity(profile.particles);
+    this.kuiperBelt.setDensity(profile.particles);
+
+    this.renderer?.setPixelRatio(Math.min(window.devicePixelRatio, profile.maxPixelRatio));
+  }
+
+  // Auto quality and the stats overlay, from the frame just rendered
+  private measureFrame(delta: number) {
+    const level = this.autoQuality?.sample(delta);
+    if (level) this.applyQuality(level);
+
+    if (!this.showStats || !this.onStats || !this.renderer) return;
+    this.statsFrames++;
+    this.statsSeconds += delta;
+    if (this.statsSeconds < STATS_SECONDS) return;
+    const { calls, triangles, points } = this.renderer.info.render;
+    this.onStats({
+      fps: this.statsFrames / this.statsSeconds,
+      drawCalls: calls,
+      triangles,
+      points,
+      quality: this.qualityLevel,
+      pixelRatio: this.renderer.getPixelRatio(),
+    });
+    this.statsFrames = 0;
+    this.statsSeconds = 0;
+  }
+
+  // Any new flight replaces the one in progress, rather than fighting it
+  private flyCamera(position: Vector3, target: Vector3, duration: number) {
+    const controls = this.controls;
+    if (!controls) return;
+    gsap.killTweensOf([this.camera.position, controls.target]);
+
+    if (duration <= 0) {
+      this.camera.position.set(position.x, position.y, position.z);
+      controls.target.set(target.x, target.y, target.z);
+      controls.update();
+      this.notifyCameraChange();
+      return;
+    }
+
+    gsap.to(controls.target, {
+      x: target.x, y: target.y, z: target.z, duration, ease: "power2.inOut"
+    });
+    gsap.to(this.camera.position, {
+      x: position.x, y: position.y, z: position.z,
+      duration, ease: "power2.inOut",
+      onUpdate: () => controls.update(),
+      onComplete: this.notifyCameraChange
+    });
+  }
+
+  // Blends target and offset from where the camera is now to the followed body
+  private handOff(offset: THREE.Vector3, duration: number) {
+    const controls = this.controls;
+    if (!controls) return;
+    gsap.killTweensOf([this.camera.position, controls.target]);
+    this.handoff?.tween.kill();
+
+    const state = { progress: 0 };
+    this.handoff = {
+      state,
+      fromTarget: controls.target.clone(),
+      fromOffset: this.camera.position.clone().sub(controls.target),
+      toOffset: offset.clone(),
+      tween: gsap.to(state, {
+        progress: 1, duration, ease: "power2.inOut",
+        onComplete: () => {
+          this.handoff = null;
+          this.notifyCameraChange();
+        }
+      }),
+    };
+  }
+
+  // Locks onto the selection from wherever the camera is, keeping its distance
+  private resumeFollowing() {
+    if (!this.selectedId || !this.controls || this.surface) return;
+    this.followId = this.selectedId;
+    this.followAngle = null;
+    this.handOff(this.camera.position.clone().sub(this.controls.target), 1);
+  }
+
+  private stopFollowing() {
+    this.followId = null;
+    this.handoff?.tween.kill();
+    this.handoff = null;
+  }
+
+  /**
+   * Moves the target onto the followed body and the camera with it, keeping
+   * whatever offset the controls left since the last frame.
+   */
+  private updateFollow() {
+    const controls = this.controls;
+    const entry = this.followId ? this.bodies.find(this.followId) : undefined;
+    if (!controls || !entry) return;
+
+    // Orbital angle around whatever the body circles, for the co-rotating frame
+    const parent = entry.data.parent ? this.bodies.find(entry.data.parent) : undefined;
+    const position = entry.mesh.position;
+    // The group's y axis is the body's pole (a moon's, its orbital frame's)
+    const frame = entry.mesh.quaternion;
+    const angle = orbitAngle(this.followCenter, position, parent?.mesh.position, frame);
+
+    const offset = this.orbitOffset.copy(this.camera.position).sub(controls.target);
+    if (this.handoff) {
+      const { state, fromTarget, fromOffset, toOffset } = this.handoff;
+      controls.target.lerpVectors(fromTarget, position, state.progress);
+      offset.lerpVectors(fromOffset, toOffset, state.progress);
+    } else {
+      // Rotating by -Δ about the pole advances the frame's atan2(z, x) by Δ
+      if (this.followMode === 'body' && this.followAngle !== null) {
+        offset.applyAxisAngle(this.followAxis.copy(UP).applyQuaternion(frame), -(angle - this.followAngle));
+      }
+      controls.target.copy(position);
+    }
+    this.followAngle = angle;
+    this.camera.position.copy(controls.target).add(offset);
+  }
+
+  /**
+   * Places the camera at the surface spot in the body's spinning frame and
+   * points it along the current look, with the local vertical as up.
+   */
+  private updateSurface() {
+    const entry = this.surface ? this.bodies.find(this.surface.bodyId) : undefined;
+    if (!this.surface || !entry) return;
+    const { latitudeDeg = 0, longitudeDeg = 0, altitude } = this.surface;
+    const lat = latitudeDeg * DEG;
+    const lon = longitudeDeg * DEG;
+
+    entry.mesh.updateMatrixWorld(true);
+    const frame = entry.body.matrixWorld;
+    const up = this.surfaceUp.set(Math.cos(lat) * Math.cos(lon), Math.sin(lat), -Math.cos(lat) * Math.sin(lon));
+    this.camera.position.copy(up).multiplyScalar(entry.data.radius * (1 + SURFACE_ALTITUDES[altitude])).applyMatrix4(frame);
+    const center = this.followCenter.setFromMatrixPosition(frame);
+    up.copy(this.camera.position).sub(center).normalize();
+
+    // North along the spin axis, flattened onto the horizon; east follows the spin
+    const north = this.surfaceNorth.set(0, 1, 0).transformDirection(frame);
+    north.addScaledVector(up, -north.dot(up));
+    if (north.lengthSq() < 1e-8) {
+      // At a pole every direction is south; take the body's prime meridian as "north"
+      north.set(1, 0, 0).transformDirection(frame);
+      north.addScaledVector(up, -north.dot(up));
+    }
+    north.normalize();
+    const east = this.surfaceEast.crossVectors(north, up);
+
+    const heading = this.look.heading * DEG;
+    const elevation = this.look.elevation * DEG;
+    const look = this.surfaceLook
+      .copy(north).multiplyScalar(Math.cos(heading))
+      .addScaledVector(east, Math.sin(heading));
+    const horizontal = this.orbitOffset.copy(look);
+    look.multiplyScalar(Math.cos(elevation)).addScaledVector(up, Math.sin(elevation));
+
+    this.camera.up.copy(up);
+    this.camera.lookAt(look.add(this.camera.position));
+    // The ground is close: pull the near plane in to just short of it
+    const radius = entry.data.radius * entry.mesh.scale.x;
+    this.camera.near = THREE.MathUtils.clamp((this.camera.position.distanceTo(center) - radius) * 0.5, 1e-6, 0.1);
+    this.camera.updateProjectionMatrix();
+    this.camera.updateMatrixWorld();
+
+    if (this.horizon && this.container) {
+      const point = horizontal.add(this.camera.position).project(this.camera);
+      const y = (-(point.y * 0.5) + 0.5) * this.container.clientHeight;
+      this.horizon.style.setProperty('--heading', String(((this.look.heading % 360) + 360) % 360));
+      this.horizon.style.setProperty('--horizon-y', `${y}px`);
+    }
+  }
+
+  private turnLook(headingDeg: number, elevationDeg: number) {
+    this.look.heading = (this.look.heading + headingDeg + 360) % 360;
+    this.look.elevation = THREE.MathUtils.clamp(this.look.elevation + elevationDeg, -MAX_ELEVATION, MAX_ELEVATION);
+  }
+
+  private zoomLook(factor: number) {
+    this.camera.fov = THREE.MathUtils.clamp(this.camera.fov * factor, 5, 100);
+  }
+
+  private isOrbiting() {
+    const { azimuth, polar, zoom } = this.orbitInput;
+    return azimuth !== 0 || polar !== 0 || zoom !== 0;
+  }
+
+  private applyOrbitInput(delta: number) {
+    if (this.surface) {
+      const { azimuth, polar, zoom } = this.orbitInput;
+      const step = ORBIT_RATE * delta / DEG;
+      this.turnLook(azimuth * step, -polar * step);
+      if (zoom) this.zoomLook(Math.exp(zoom * ZOOM_RATE * delta));
+      return;
+    }
+    const controls = this.controls;
+    // A handoff finishes first; its endpoints move, so it can't be cancelled midway without a jump
+    if (!controls || !this.isOrbiting() || this.handoff) return;
+    // Taking over by hand cancels any flight in progress
+    gsap.killTweensOf([this.camera.position, controls.target]);
+
+    const { azimuth, polar, zoom } = this.orbitInput;
+    const offset = this.orbitOffset.copy(this.camera.position).sub(controls.target);
+    const spherical = this.spherical.setFromVector3(offset);
+    spherical.theta += azimuth * ORBIT_RATE * delta;
+    spherical.phi = THREE.MathUtils.clamp(spherical.phi + polar * ORBIT_RATE * delta, 0.01, Math.PI - 0.01);
+    spherical.radius = THREE.MathUtils.clamp(spherical.radius * Math.exp(zoom * ZOOM_RATE * delta), controls.minDistance, controls.maxDistance);
+    this.camera.position.copy(controls.target).add(offset.setFromSpherical(spherical));
+  }
+
+  private notifyCameraChange = () => {
+    this.onCameraChange?.(this.getCameraView());
+  };
+
+  // True scale needs a much closer near plane and zoom limit to reach planets
+  private updateCameraLimits() {
+    if (this.surface) return; // The surface view sets its own near plane
+    this.camera.near = blendScale(this.blend, m => m === 'true' ? 0.0002 : 0.1);
+    this.camera.updateProjectionMatrix();
+    if (this.controls) this.controls.minDistance = blendScale(this.blend, m => m === 'true' ? 0.002 : 5);
+  }
+
+  private updateHover() {
+    this.raycaster.setFromCamera(this.pointer, this.camera);
+    const intersects = this.raycaster.intersectObjects(this.bodies.pickables, true);
+
+    let hoveredId: string | null = null;
+    if (intersects.length > 0) {
+      let object = intersects[0].object;
+      while (object.parent && !object.userData.id) object = object.parent;
+      hoveredId = object.userData.id ?? null;
+    }
+    this.hoveredId = hoveredId;
+  }
+
+  private updateLabels() {
+    if (!this.container) return;
+    const width = this.container.clientWidth;
+    const height = this.container.clientHeight;
+    const pos = new THREE.Vector3();
+    const surfaceId = this.surface?.bodyId;
+
+    this.labels.forEach((el, id) => {
+      const entry = this.bodies.find(id);
+      if (!entry) return;
+      // From the surface, name everything above the horizon except the ground underfoot
+      const inSky = surfaceId === undefined
+        || (id !== surfaceId && pos.copy(entry.mesh.position).sub(this.camera.position).dot(this.surfaceUp) > 0);
+      pos.copy(entry.mesh.position).project(this.camera);
+
+      // Not behind the camera
+      if (pos.z < 1 && inSky) {
+        const x = (pos.x * 0.5 + 0.5) * width;
+        const y = (-(pos.y * 0.5) + 0.5) * height;
+        el.style.transform = `translate3d(${x}px, ${y}px, 0) translate(-50%, -100%)`;
+        // Show if hovered OR selected
+        const active = this.allLabels || surfaceId !== undefined || id === this.hoveredId || id === this.selectedId || id === this.keyboardFocusId;
+        el.style.opacity = active ? '1' : '0';
+      } else {
+        el.style.opacity = '0';
+      }
+    });
+  }
+
+  private handlePointerMove = (event: PointerEvent) => {
+    if (!this.renderer) return;
+    const rect = this.renderer.domElement.getBoundingClientRect();
+    this.pointer.x = ((event.clientX - rect.left) / rect.width) * 2 - 1;
+    this.pointer.y = -((event.clientY - rect.top) / rect.height) * 2 + 1;
+    // Dragging moves the sky with the pointer, more finely when zoomed in
+    if (this.surface && event.buttons & 1) {
+      const rate = DRAG_RATE * this.camera.fov / FOV;
+      this.turnLook(-event.movementX * rate, event.movementY * rate);
+    }
+  };
+
+  private handleWheel = (event: WheelEvent) => {
+    if (!this.surface) return;
+    event.preventDefault();
+    this.zoomLook(Math.exp(event.deltaY * 0.001));
+  };
+
+  private handlePointerDown = () => {
+    if (this.hoveredId) this.onSelect?.(this.hoveredId);
+  };
+}
@@ -0,0 +1,120 @@
+import * as THREE from 'three';
+import { Layer } from './Layer';
+import { FrameState, LayerContext } from '../types';
+import { OrbitalElements } from '../../types';
+import { beltFragmentShader, beltVertexShader } from '../shaders';
+import { sampleSceneDistances } from '../placement';
+import { orbitalPeriodDays } from '../../utils/kepler';
+import { sampleAsteroidBelt } from '../../utils/asteroidBelt';
+import { sampleKuiperBelt } from '../../utils/kuiperBelt';
+
+const ASTEROID_COUNT = 30000;
+const KUIPER_BELT_COUNT = 2500;
+// Samples of the scale mode's distance curve across a belt's radial extent
+const DISTANCE_SAMPLES = 64;
+
+const DEG = Math.PI / 180;
+const DAYS_PER_JULIAN_CENTURY = 36525;
+
+// Radians per day: the observed rate where the elements carry one, else Kepler's third law
+const meanMotion = (elements: OrbitalElements) =>
+  elements.rates
+    ? (elements.rates.meanAnomaly * DEG) / DAYS_PER_JULIAN_CENTURY
+    : (Math.PI * 2) / orbitalPeriodDays(elements);
+
+/**
+ * A small-body belt. Each point carries its orbital elements and the vertex
+ * shader moves it along its orbit, so inner objects overtake outer ones with
+ * no per-point work on the CPU. The scale mode reaches the shader as a table
+ * of scene distances, refilled only when the blend moves.
+ */
+abstract class BeltLayer extends Layer {
+  private points: THREE.Points | null = null;
+  private auRange = new THREE.Vector2();
+  private distances = new Float32Array(DISTANCE_SAMPLES);
+
+  protected abstract readonly color: number;
+
+  /** Orbits (heliocentric, ecliptic) and point sizes for the belt. */
+  protected abstract sample(context: LayerContext): { orbits: OrbitalElements[]; sizes: Float32Array };
+
+  protected build(context: LayerContext) {
+    const { orbits, sizes } = this.sample(context);
+    // Samples come grouped by population; shuffle so any prefix is a fair subset for setDensity
+    for (let i = orbits.length - 1; i > 0; i--) {
+      const j = Math.floor(Math.random() * (i + 1));
+      [orbits[i], orbits[j]] = [orbits[j], orbits[i]];
+    }
+
+    const orbit = new Float32Array(orbits.length * 4);
+    const orientation = new Float32Array(orbits.length * 3);
+    let auMin = Infinity, auMax = 0;
+    orbits.forEach((elements, i) => {
+      const { semiMajorAxis: a, eccentricity: e } = elements;
+      orbit.set([a, e, meanMotion(elements), elements.meanAnomalyAtEpoch * DEG], i * 4);
+      orientation.set([elements.inclination * DEG, elements.longitudeOfAscendingNode * DEG, elements.argumentOfPerihelion * DEG], i * 3);
+      auMin = Math.min(auMin, a * (1 - e));
+      auMax = Math.max(auMax, a * (1 + e));
+    });
+    this.auRange.set(auMin, auMax);
+
+    const geo = new THREE.BufferGeometry();
+    // Positions come from the shader; this only sets how many points are drawn
+    geo.setAttribute('position', new THREE.BufferAttribute(new Float32Array(orbits.length * 3), 3));
+    geo.setAttribute('size', new THREE.BufferAttribute(sizes, 1));
+    geo.setAttribute('orbit', new THREE.BufferAttribute(orbit, 4));
+    geo.setAttribute('orientation', new THREE.BufferAttribute(orientation, 3));
+
+    const mat = new THREE.ShaderMaterial({
+      uniforms: {
+        color: { value: new THREE.Color(this.color) },
+        uDays: { value: 0 },
+        uDistance: { value: this.distances },
+        uAuRange: { value: this.auRange },
+      },
+      defines: { DISTANCE_SAMPLES },
+      vertexShader: beltVertexShader,
+      fragmentShader: beltFragmentShader,
+      transparent: false
+    });
+
+    this.points = new THREE.Points(geo, mat);
+    // The geometry's positions are placeholders, so bounds would be wrong
+    this.points.frustumCulled = false;
+    this.root.add(this.points);
+  }
+
+  /** Draws only a fraction of the belt. */
+  setDensity(fraction: number) {
+    const geometry = this.points?.geometry;
+    geometry?.setDrawRange(0, Math.round(geometry.attributes.position.count * fraction));
+  }
+
+  update({ simDays, blend, scaleChanged }: FrameState) {
+    if (!this.points) return;
+    if (scaleChanged) sampleSceneDistances(this.distances, this.auRange.x, this.auRange.y, blend);
+    this.points.material.uniforms.uDays.value = simDays;
+  }
+}
+
+/** Main asteroid belt between Mars and Jupiter, with Jupiter's Trojans. */
+export class AsteroidBeltLayer extends BeltLayer {
+  protected readonly color = 0x888888;
+
+  protected sample({ bodies }: LayerContext) {
+    const orbits = sampleAsteroidBelt(ASTEROID_COUNT, bodies.find(b => b.id === 'jupiter')?.orbit);
+    const sizes = new Float32Array(orbits.length).map(() => Math.random() * 0.3 + 0.1);
+    return { orbits, sizes };
+  }
+}
+
+/** Classical, resonant and scattered populations beyond Neptune. */
+export class KuiperBeltLayer extends BeltLayer {
+  protected readonly color = 0x8899aa;
+
+  protected sample() {
+    const orbits = sampleKuiperBelt(KUIPER_BELT_COUNT);
+    const sizes = new Float32Array(orbits.length).map(() => Math.random() * 0.5 + 0.2);
+    return { orbits, sizes };
+  }
+}
@@ -0,0 +1,506 @@
+import * as THREE from 'three';
+import gsap from 'gsap';
+import { BodyFeature, PlanetData, TailFeature } from '../../types';
+import { Layer } from './Layer';
+import { FrameState, LayerContext } from '../types';
+import {
+  auroraFragmentShader, auroraVertexShader, atmosphereFragmentShader, nightLightsFragmentShader, nightLightsVertexShader,
+  ringFragmentShader, ringVertexShader, tailFragmentShader, tailVertexShader,
+} from '../shaders';
+import { ORBIT_SEGMENTS, findFeature, orientToPole, placeBody, placeSatellite, setScenePosition, updateOrbit } from '../placement';
+import { createRingTexture, loadTexture } from '../textures';
+import { createSurfaceCanvas } from '../procedural';
+import { QualityProfile, sphereSegments } from '../quality';
+import { satelliteMeanAnomaly } from '../../utils/kepler';
+import { heliocentricPosition } from '../../utils/ephemeris';
+import { meridianAngle, rotationAxes } from '../../utils/rotation';
+import { blendScale, sceneDistance, sceneRadius } from '../../utils/scale';
+
+// Comet activity: tails switch on inside this heliocentric distance (AU)
+const TAIL_ONSET_AU = 5;
+const TAIL_PARTICLES = 400;
+const DEG = Math.PI / 180;
+
+export interface BodyEntry {
+  mesh: THREE.Group; // Positioned, scaled and tilted to the body's pole; holds the body and its features
+  body: THREE.Mesh; // The sphere, spinning about the group's y axis
+  material: THREE.MeshStandardMaterial;
+  data: PlanetData;
+  orbitLine?: THREE.Line;
+  pulse: { value: number }; // Selection pulse, multiplied onto the scale-mode size
+  parent?: BodyEntry; // Set for satellites
+  shells: THREE.Mesh[]; // Atmosphere, aurora and night lights: the body's sphere scaled up, retessellated with it
+}
+
+interface Tail {
+  entry: BodyEntry;
+  feature: TailFeature;
+  ion: THREE.Points;
+  dust: THREE.Points;
+}
+
+/** Every catalog body with its orbit line and features, placed from the ephemeris. */
+export class BodiesLayer extends Layer {
+  private entries: BodyEntry[] = [];
+  private tails: Tail[] = [];
+  private auroras: THREE.Mesh[] = [];
+  private orbitOpacity = 0.25;
+  private selectedId: string | null = null;
+  private reducedMotion = false;
+  private starPulses: gsap.core.Tween[] = [];
+  private textures: THREE.Texture[] = [];
+  private particleTexture: THREE.Texture | null = null;
+  // Sphere tessellations by body and segment count, built as the camera first needs them
+  private spheres = new Map<string, THREE.SphereGeometry>();
+
+  private readonly tailDirection = new THREE.Vector3();
+  private readonly tailDustDirection = new THREE.Vector3();
+  private readonly tailVelocity = new THREE.Vector3();
+  private readonly tailTarget = new THREE.Vector3();
+
+  get all(): readonly BodyEntry[] {
+    return this.entries;
+  }
+
+  find(id: string): BodyEntry | undefined {
+    return this.entries.find(p => p.data.id === id);
+  }
+
+  /** Meshes to raycast against; hits resolve to a body through `userData.id`. */
+  get pickables(): THREE.Object3D[] {
+    return this.entries.map(p => p.mesh);
+  }
+
+  protected build({ bodies, particleTexture }: LayerContext) {
+    this.particleTexture = particleTexture;
+    this.entries = bodies.map((planetData): BodyEntry => {
+      const geometry = this.sphere(planetData, 64);
+      let material;
+      const texture = loadTexture(planetData.textureUrls ?? [], () => createSurfaceCanvas(planetData));
+      if (texture) this.textures.push(texture);
+      // If a texture exists, use it; otherwise fallback to color.
+      // Emissive will handle the "glow" selection state.
+      const displayColor = texture ? 0xffffff : planetData.color;
+      const emissive = findFeature(planetData, 'emissive');
+
+      if (emissive) {
+        // Self-luminous bodies glow through their texture
+        material = new THREE.MeshStandardMaterial({
+          color: emissive.tint ?? displayColor,
+          map: texture || undefined,
+          emissive: emissive.color,
+          emissiveIntensity: emissive.intensity,
+          emissiveMap: texture || undefined,
+          roughness: 0.4,
+          metalness: 0.0
+        });
+      } else {
+        material = new THREE.MeshStandardMaterial({
+          color: displayColor,
+          map: texture || undefined,
+          roughness: 0.6, // Reduced roughness for better light interaction
+          metalness: 0.1, // Slight metallic feel
+          emissive: new THREE.Color(planetData.color),
+          emissiveIntensity: 0
+        });
+      }
+
+      const body = new THREE.Mesh(geometry, material);
+      // Stars shouldn't cast/receive shadows in the same way as planets to avoid artifacts with internal light
+      body.castShadow = !emissive;
+      body.receiveShadow = !emissive;
+
+      const group = new THREE.Group();
+      group.add(body);
+      group.userData = { id: planetData.id };
+      if (planetData.rotation) orientToPole(group, planetData);
+      this.root.add(group);
+
+      const entry: BodyEntry = {
+        mesh: group,
+        body,
+        material,
+        data: planetData,
+        orbitLine: this.createOrbit(planetData),
+        pulse: { value: 1 },
+        shells: []
+      };
+      planetData.features?.forEach(feature => this.buildFeature(feature, entry));
+      return entry;
+    });
+
+    // Link satellites to their parents; the catalog guarantees the ids exist
+    this.entries.forEach(entry => {
+      if (entry.data.parent) entry.parent = this.find(entry.data.parent);
+    });
+
+    this.startStarPulses();
+  }
+
+  update({ elapsed, simDays, blend, scaleChanged }: FrameState) {
+    if (scaleChanged) {
+      this.entries.forEach(planet => {
+        if (planet.orbitLine) updateOrbit(planet.orbitLine, planet.data, planet.parent?.data, blend);
+      });
+    }
+
+    this.entries.forEach((planet) => {
+      planet.mesh.scale.setScalar((blendScale(blend, m => sceneRadius(planet.data, m)) / planet.data.radius) * planet.pulse.value);
+      if (planet.data.orbit) {
+        placeBody(planet.mesh, planet.data, simDays, blend);
+      }
+      const { rotation, satelliteOrbit, details } = planet.data;
+      if (satelliteOrbit) {
+        // Tidally locked: one rotation per orbit
+        planet.body.rotation.y = satelliteMeanAnomaly(satelliteOrbit, simDays);
+      } else if (rotation) {
+        planet.body.rotation.y = meridianAngle(rotation, simDays) * DEG;
+      } else if (details.dayLengthSeconds) {
+        // No pole on record: spin upright, once per day length
+        const turns = simDays * 86400 / details.dayLengthSeconds;
+        planet.body.rotation.y = (turns - Math.floor(turns)) * Math.PI * 2;
+      }
+    });
+
+    // Satellites follow their parents, so place them once every parent has moved
+    this.entries.forEach((moon) => {
+      if (!moon.parent || !moon.data.satelliteOrbit) return;
+      placeSatellite(moon.mesh, moon.data, moon.parent.data, simDays, blend);
+      moon.mesh.position.add(moon.parent.mesh.position);
+      moon.orbitLine?.position.copy(moon.parent.mesh.position);
+    });
+
+    this.updateTails(simDays, blend);
+
+    this.auroras.forEach(aurora => {
+      (aurora.material as THREE.ShaderMaterial).uniforms.uTime.value = elapsed;
+    });
+  }
+
+  /** Resets every highlight, then pulses the selected body and its orbit. */
+  highlight(id: string | null) {
+    this.selectedId = id;
+    this.entries.forEach(p => {
+      gsap.to(p.pulse, { value: 1, duration: 0.5 });
+      gsap.to(p.material, { emissiveIntensity: findFeature(p.data, 'emissive')?.intensity ?? 0, duration: 0.5 });
+      if (p.orbitLine) {
+        const mat = p.orbitLine.material as THREE.LineDashedMaterial;
+        gsap.to(mat, { opacity: this.orbitOpacity, duration: 0.5 });
+        mat.color.setHex(0xffffff);
+      }
+    });
+
+    const target = id ? this.find(id) : undefined;
+    if (!target) return;
+
+    if (!this.reducedMotion) {
+      gsap.fromTo(target.pulse,
+        { value: 1 },
+        { value: 1.2, duration: 0.6, yoyo: true, repeat: 3, ease: "sine.inOut" }
+      );
+    }
+
+    if (!findFeature(target.data, 'emissive')) {
+      gsap.to(target.material, { emissiveIntensity: 0.5, duration: 0.8, ease: "power2.out" });
+    }
+
+    if (target.orbitLine) {
+      const mat = target.orbitLine.material as THREE.LineDashedMaterial;
+      mat.color.setHex(0x60a5fa);
+      if (this.reducedMotion) gsap.to(mat, { opacity: this.selectedOrbitOpacity, duration: 0.5 });
+      else gsap.fromTo(mat,
+        { opacity: this.orbitOpacity },
+        { opacity: 0.8, duration: 0.6, yoyo: true, repeat: 3, ease: "sine.inOut",
+          onComplete: () => { gsap.to(mat, { opacity: this.selectedOrbitOpacity, duration: 0.5 }); }
+        }
+      );
+    }
+  }
+
+  setOrbitsVisible(visible: boolean) {
+    this.entries.forEach(p => {
+      if (p.orbitLine) p.orbitLine.visible = visible;
+    });
+  }
+
+  /** Resting opacity of orbit lines; the selected orbit stays a little brighter. */
+  setOrbitOpacity(opacity: number) {
+    if (opacity === this.orbitOpacity) return;
+    this.orbitOpacity = opacity;
+    this.entries.forEach(p => {
+      if (!p.orbitLine) return;
+      const mat = p.orbitLine.material as THREE.LineDashedMaterial;
+      gsap.killTweensOf(mat);
+      mat.opacity = p.data.id === this.selectedId ? this.selectedOrbitOpacity : opacity;
+    });
+  }
+
+  /** Stops the star's glow pulse and the selection pulses, or brings them back. */
+  setReducedMotion(reduced: boolean) {
+    if (reduced === this.reducedMotion) return;
+    this.reducedMotion = reduced;
+    if (reduced) {
+      this.starPulses.forEach(tween => tween.kill());
+      this.starPulses = [];
+      this.entries.forEach(p => {
+        const emissive = findFeature(p.data, 'emissive');
+        if (emissive) p.material.emissiveIntensity = emissive.intensity;
+      });
+    } else {
+      this.startStarPulses();
+    }
+  }
+
+  /**
+   * Tessellates each sphere for its size on screen: finely when it fills the
+   * view, coarsely when it's a dot. `viewportHeight` is in device pixels.
+   */
+  updateDetail(camera: THREE.PerspectiveCamera, viewportHeight: number, profile: QualityProfile) {
+    const pixelsPerUnit = viewportHeight / (2 * Math.tan((camera.fov * DEG) / 2));
+    this.entries.forEach(entry => {
+      const radius = entry.data.radius * entry.mesh.scale.x;
+      const distance = Math.max(camera.position.distanceTo(entry.mesh.position), radius);
+      const geometry = this.sphere(entry.data, sphereSegments((radius / distance) * pixelsPerUnit, profile));
+      if (entry.body.geometry === geometry) return;
+      entry.body.geometry = geometry;
+      entry.shells.forEach(shell => { shell.geometry = geometry; });
+    });
+  }
+
+  private sphere(data: PlanetData, segments: number): THREE.SphereGeometry {
+    const key = `${data.id}:${segments}`;
+    let geometry = this.spheres.get(key);
+    if (!geometry) {
+      geometry = new THREE.SphereGeometry(data.radius, segments, segments / 2);
+      this.spheres.set(key, geometry);
+    }
+    return geometry;
+  }
+
+  // A layer just above the surface, sharing the body's current tessellation
+  private shell(entry: BodyEntry, scale: number, material: THREE.Material): THREE.Mesh {
+    const shell = new THREE.Mesh(entry.body.geometry, material);
+    shell.scale.setScalar(scale);
+    entry.shells.push(shell);
+    return shell;
+  }
+
+  setAuroraVisible(visible: boolean) {
+    this.auroras.forEach(aurora => { aurora.visible = visible; });
+  }
+
+  dispose() {
+    this.entries.forEach(p => {
+      gsap.killTweensOf([p.pulse, p.material]);
+      if (p.orbitLine) gsap.killTweensOf(p.orbitLine.material);
+    });
+    this.textures.forEach(texture => texture.dispose());
+    // Only the tessellations in use are in the scene graph for super to find
+    this.spheres.forEach(geometry => geometry.dispose());
+    this.spheres.clear();
+    super.dispose();
+  }
+
+  private startStarPulses() {
+    if (this.reducedMotion) return;
+    this.entries.forEach(p => {
+      const emissive = findFeature(p.data, 'emissive');
+      if (emissive) {
+        this.starPulses.push(gsap.to(p.material, {
+          emissiveIntensity: emissive.intensity * 2.5,
+          duration: 2 + Math.random(),
+          repeat: -1,
+          yoyo: true,
+          ease: "sine.inOut"
+        }));
+      }
+    });
+  }
+
+  private get selectedOrbitOpacity() {
+    return Math.max(this.orbitOpacity, 0.4);
+  }
+
+  // Each catalog feature type adds its meshes to the body's group or sphere
+  private buildFeature(feature: BodyFeature, entry: BodyEntry) {
+    const { data, mesh: group, body } = entry;
+    switch (feature.type) {
+      case 'rings': {
+        // In the group's equatorial plane, so the rings tilt with the pole
+        const profile = createRingTexture(feature);
+        this.textures.push(profile);
+        const ringGeo = new THREE.RingGeometry(data.radius * feature.innerRadius, data.radius * feature.outerRadius, 128);
+        const ringMat = new THREE.ShaderMaterial({
+          uniforms: {
+            uProfile: { value: profile },
+            uPlanetRadius: { value: data.radius },
+            uInner: { value: feature.innerRadius },
+            uOuter: { value: feature.outerRadius },
+            uSunPosition: { value: new THREE.Vector3(0, 0, 0) },
+          },
+          vertexShader: ringVertexShader,
+          fragmentShader: ringFragmentShader,
+          side: THREE.DoubleSide,
+          transparent: true,
+          depthWrite: false,
+        });
+        const ring = new THREE.Mesh(ringGeo, ringMat);
+        ring.rotation.x = Math.PI / 2;
+        // The shadow map sees a solid disc, so only dense rings cast one onto the planet
+        const densest = Math.max(...(feature.bands ?? [{ opacity: 1 }]).map(b => b.opacity)) * feature.opacity;
+        ring.castShadow = densest >= 0.5;
+        group.add(ring);
+        break;
+      }
+      case 'atmosphere': {
+        const atmosphereMat = new THREE.ShaderMaterial({
+          uniforms: {
+            uColor: { value: new THREE.Color(feature.color) },
+            uOpacity: { value: feature.opacity }
+          },
+          vertexShader: auroraVertexShader,
+          fragmentShader: atmosphereFragmentShader,
+          blending: THREE.AdditiveBlending,
+          transparent: true,
+          depthWrite: false,
+        });
+        group.add(this.shell(entry, feature.thickness, atmosphereMat));
+        break;
+      }
+      case 'aurora': {
+        const auroraMat = new THREE.ShaderMaterial({
+          uniforms: { uTime: { value: 0 } },
+          vertexShader: auroraVertexShader,
+          fragmentShader: auroraFragmentShader,
+          side: THREE.DoubleSide,
+          blending: THREE.AdditiveBlending,
+          transparent: true,
+          depthWrite: false,
+        });
+        const aurora = this.shell(entry, 1.02, auroraMat);
+        body.add(aurora);
+        this.auroras.push(aurora);
+        break;
+      }
+      case 'nightLights': {
+        // Rides on the sphere so the lights turn with it; the day map tells land from sea
+        const lightsMat = new THREE.ShaderMaterial({
+          uniforms: {
+            uColor: { value: new THREE.Color(feature.color) },
+            uIntensity: { value: feature.intensity },
+            uSunPosition: { value: new THREE.Vector3(0, 0, 0) },
+            uDayMap: { value: entry.material.map ?? null },
+            uHasDayMap: { value: Boolean(entry.material.map) },
+          },
+          vertexShader: nightLightsVertexShader,
+          fragmentShader: nightLightsFragmentShader,
+          transparent: true,
+          depthWrite: false,
+        });
+        body.add(this.shell(entry, 1.002, lightsMat));
+        break;
+      }
+      case 'tail': {
+        // Tails live in scene space, so they are not scaled with the nucleus
+        const ion = this.createTail(feature.ionColor, 0.04);
+        const dust = this.createTail(feature.dustColor, 0.12);
+        this.root.add(ion, dust);
+        this.tails.push({ entry, feature, ion, dust });
+        break;
+      }
+      case 'emissive':
+        // Handled by the body material
+        break;
+    }
+  }
+
+  private createTail(color: string, spread: number) {
+    const geo = new THREE.BufferGeometry();
+    const pos = new Float32Array(TAIL_PARTICLES * 3);
+    const sizes = new Float32Array(TAIL_PARTICLES);
+    const along = new Float32Array(TAIL_PARTICLES);
+    for (let i = 0; i < TAIL_PARTICLES; i++) {
+      // Denser near the nucleus, widening with distance
+      const t = Math.pow(Math.random(), 1.5);
+      const angle = Math.random() * Math.PI * 2;
+      const r = spread * t * Math.sqrt(Math.random());
+      pos[i*3] = Math.cos(angle) * r;
+      pos[i*3+1] = Math.sin(angle) * r;
+      pos[i*3+2] = t;
+      sizes[i] = 1.5 + Math.random() * 2;
+      along[i] = t;
+    }
+    geo.setAttribute('position', new THREE.BufferAttribute(pos, 3));
+    geo.setAttribute('size', new THREE.BufferAttribute(sizes, 1));
+    geo.setAttribute('along', new THREE.BufferAttribute(along, 1));
+    const mat = new THREE.ShaderMaterial({
+      uniforms: {
+        uColor: { value: new THREE.Color(color) },
+        uBrightness: { value: 0 },
+        pointTexture: { value: this.particleTexture }
+      },
+      vertexShader: tailVertexShader,
+      fragmentShader: tailFragmentShader,
+      transparent: true,
+      blending: THREE.AdditiveBlending,
+      depthWrite: false
+    });
+    const points = new THREE.Points(geo, mat);
+    points.frustumCulled = false;
+    points.visible = false;
+    return points;
+  }
+
+  // Geometry is filled in by updateOrbit once the scale mode is known
+  private createOrbit(planetData: PlanetData): THREE.Line | undefined {
+    if (!planetData.orbit && !planetData.satelliteOrbit) return undefined;
+    const geometry = new THREE.BufferGeometry();
+    const positions = new Float32Array((ORBIT_SEGMENTS + 1) * 3);
+    geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+    const material = new THREE.LineDashedMaterial({
+      color: 0xffffff,
+      linewidth: 1,
+      scale: 1,
+      dashSize: 3,
+      gapSize: 2,
+      opacity: this.orbitOpacity,
+      transparent: true
+    });
+    const orbit = new THREE.Line(geometry, material);
+    this.root.add(orbit);
+    return orbit;
+  }
+
+  // Tails point away from the Sun; length and brightness rise towards perihelion
+  private updateTails(simDays: number, blend: FrameState['blend']) {
+    const { tailDirection, tailDustDirection, tailVelocity, tailTarget } = this;
+    this.tails.forEach(({ entry, feature, ion, dust }) => {
+      const orbit = entry.data.orbit;
+      if (!orbit) return;
+      const helio = heliocentricPosition(orbit, simDays);
+      const au = Math.hypot(helio.x, helio.y, helio.z);
+      const activity = THREE.MathUtils.smoothstep(TAIL_ONSET_AU - au, 0, TAIL_ONSET_AU - 1);
+      ion.visible = dust.visible = activity > 0;
+      if (!ion.visible) return;
+
+      const lengthAu = (feature.length * activity) / Math.max(au * au, 0.25);
+      const head = entry.mesh.position;
+      const antiSun = tailDirection.copy(head).normalize();
+      const tip = blendScale(blend, m => sceneDistance(au + lengthAu, m)) - head.length();
+      const brightness = activity * Math.min(1, 1 / Math.max(au, 0.3));
+
+      // The dust tail curves back along the orbit, away from the direction of motion
+      const ahead = heliocentricPosition(orbit, simDays + 1);
+      setScenePosition(tailVelocity, ahead, blend);
+      tailVelocity.sub(head).normalize();
+
+      [ion, dust].forEach((tail, i) => {
+        const dir = i === 0 ? antiSun : tailDustDirection.copy(antiSun).addScaledVector(tailVelocity, -0.4).normalize();
+        tail.position.copy(head);
+        tail.lookAt(tailTarget.copy(head).add(dir));
+        tail.scale.set(tip, tip, tip);
+        (tail.material as THREE.ShaderMaterial).uniforms.uBrightness.value = brightness * (i === 0 ? 0.9 : 0.6);
+      });
+    });
+  }
+}
@@ -0,0 +1,94 @@
+import * as THREE from 'three';
+import { Layer } from './Layer';
+import { FrameState, LayerContext } from '../types';
+
+// Visitor comet speed in scene units per simulated day, and spawn chance per simulated day
+const COMET_SPEED = 8;
+const COMET_SPAWN_RATE = 0.02;
+const TAIL_COUNT = 100;
+
+/** Occasional random comet streaking through the inner system. */
+export class CometLayer extends Layer {
+  /** Whether new comets spawn; one already in flight finishes its pass. */
+  enabled = false;
+
+  private head: THREE.Mesh | null = null;
+  private tail: THREE.Points | null = null;
+  private velocity = new THREE.Vector3(0.5, 0, 0.2).multiplyScalar(COMET_SPEED);
+  private active = false;
+
+  protected build({ particleTexture }: LayerContext) {
+    const cometHeadGeo = new THREE.SphereGeometry(0.4, 16, 16);
+    const cometHeadMat = new THREE.MeshBasicMaterial({ color: 0xaaccff });
+    const cometHead = new THREE.Mesh(cometHeadGeo, cometHeadMat);
+
+    const tailGeo = new THREE.BufferGeometry();
+    const tailPos = new Float32Array(TAIL_COUNT * 3);
+    const tailSizes = new Float32Array(TAIL_COUNT);
+
+    for(let i=0; i<TAIL_COUNT; i++) {
+      tailSizes[i] = (1 - i/TAIL_COUNT) * 3;
+      tailPos[i*3] = 9999;
+    }
+
+    tailGeo.setAttribute('position', new THREE.BufferAttribute(tailPos, 3));
+    tailGeo.setAttribute('size', new THREE.BufferAttribute(tailSizes, 1));
+
+    const tailMat = new THREE.PointsMaterial({
+      color: 0x88ccff,
+      size: 2,
+      transparent: true,
+      opacity: 0.6,
+      map: particleTexture || undefined,
+      blending: THREE.AdditiveBlending,
+      depthWrite: false
+    });
+
+    const cometTail = new THREE.Points(tailGeo, tailMat);
+    cometHead.visible = false;
+    cometTail.visible = false;
+    this.root.add(cometHead, cometTail);
+    this.head = cometHead;
+    this.tail = cometTail;
+  }
+
+  update({ simDelta }: FrameState) {
+    const { head, tail } = this;
+    if (!head || !tail) return;
+    const positions = tail.geometry.attributes.position.array as Float32Array;
+
+    if (!this.active && this.enabled && Math.random() < Math.abs(simDelta) * COMET_SPAWN_RATE) {
+      this.active = true;
+      head.visible = true;
+      tail.visible = true;
+      const angle = Math.random() * Math.PI * 2;
+      const r = 200;
+      head.position.set(Math.cos(angle) * r, Math.random() * 50 - 25, Math.sin(angle) * r);
+      const target = new THREE.Vector3(Math.random()*40-20, 0, Math.random()*40-20);
+      const dir = new THREE.Vector3().subVectors(target, head.position).normalize();
+      this.velocity.copy(dir).multiplyScalar(COMET_SPEED * (0.8 + Math.random() * 0.5));
+
+      // Collapse the tail onto the head
+      const initialPos = head.position.toArray();
+      for(let i=0; i<positions.length; i++) positions[i] = initialPos[i%3];
+    }
+
+    if (this.active) {
+      head.position.addScaledVector(this.velocity, simDelta);
+
+      // Efficient array shifting for tail effect
+      positions.copyWithin(3, 0, positions.length - 3);
+
+      positions[0] = head.position.x;
+      positions[1] = head.position.y;
+      positions[2] = head.position.z;
+
+      tail.geometry.attributes.position.needsUpdate = true;
+      if (head.position.length() > 250) {
+        this.active = false;
+        head.visible = false;
+        tail.visible = false;
+      }
+    }
+  }
+}
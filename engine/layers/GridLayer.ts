@@ -0,0 +1,41 @@
+import * as THREE from 'three';
+import { Layer } from './Layer';
+import { FrameState } from '../types';
+import { GRID_EXTENT_AU, blendScale, sceneDistance } from '../../utils/scale';
+
+// The radius PolarGridHelper is built with; rescaled to the extent in AU per scale mode
+const GRID_RADIUS = 120;
+
+/** Polar grid just below the ecliptic, marking out distance. */
+export class GridLayer extends Layer {
+  private grid: THREE.PolarGridHelper | null = null;
+  private extentAu = GRID_EXTENT_AU;
+  private extentChanged = false;
+
+  protected build() {
+    const polarGrid = new THREE.PolarGridHelper(GRID_RADIUS, 16, 8, 64, 0x334455, 0x111111);
+    polarGrid.position.y = -2; // Slightly below ecliptic plane
+
+    if (polarGrid.material instanceof THREE.Material) {
+      polarGrid.material.transparent = true;
+      polarGrid.material.opacity = 0.15;
+      polarGrid.material.blending = THREE.AdditiveBlending;
+    }
+
+    this.root.add(polarGrid);
+    this.grid = polarGrid;
+  }
+
+  setExtent(au: number) {
+    if (au === this.extentAu) return;
+    this.extentAu = au;
+    this.extentChanged = true;
+  }
+
+  update({ blend, scaleChanged }: FrameState) {
+    if ((scaleChanged || this.extentChanged) && this.grid) {
+      this.extentChanged = false;
+      this.grid.scale.setScalar(blendScale(blend, m => sceneDistance(this.extentAu, m)) / GRID_RADIUS);
+    }
+  }
+}
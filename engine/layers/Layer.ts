@@ -0,0 +1,37 @@
+import * as THREE from 'three';
+import { FrameState, LayerContext, SceneLayer } from '../types';
+
+/** Frees the GPU resources of an object tree. Textures are left to their owners. */
+export const disposeObject = (root: THREE.Object3D) => {
+  root.traverse((object: THREE.Object3D) => {
+    // Only drawn objects own a geometry and material; groups and lights have neither
+    const drawn = object instanceof THREE.Mesh || object instanceof THREE.Points || object instanceof THREE.Line || object instanceof THREE.Sprite;
+    if (!drawn) return;
+    object.geometry.dispose();
+    const materials: THREE.Material[] = Array.isArray(object.material) ? object.material : [object.material];
+    materials.forEach(material => material.dispose());
+  });
+};
+
+/**
+ * Base for layers that keep everything they draw under one group, so adding,
+ * hiding and tearing down the layer are one operation each.
+ */
+export abstract class Layer implements SceneLayer {
+  readonly root = new THREE.Group();
+
+  init(context: LayerContext) {
+    context.scene.add(this.root);
+    this.build(context);
+  }
+
+  protected abstract build(context: LayerContext): void;
+
+  abstract update(frame: FrameState): void;
+
+  dispose() {
+    this.root.removeFromParent();
+    disposeObject(this.root);
+    this.root.clear();
+  }
+}
@@ -0,0 +1,46 @@
+import * as THREE from 'three';
+import { PlanetData } from '../../types';
+import { Layer } from './Layer';
+import { FrameState, LayerContext } from '../types';
+import { starScale } from '../placement';
+
+/** Toroidal field loops around the star, breathing slowly. */
+export class MagneticFieldLayer extends Layer {
+  private material: THREE.LineBasicMaterial | null = null;
+  private bodies: PlanetData[] = [];
+
+  protected build({ bodies }: LayerContext) {
+    this.bodies = bodies;
+    const material = new THREE.LineBasicMaterial({
+      color: 0x4488ff,
+      transparent: true,
+      opacity: 0.2,
+      blending: THREE.AdditiveBlending
+    });
+    this.material = material;
+
+    const createFieldLoop = (xRadius: number, yRadius: number, rotationAngle: number) => {
+      const curve = new THREE.EllipseCurve(0, 0, xRadius, yRadius, 0, 2 * Math.PI, false, 0);
+      const points = curve.getPoints(64);
+      const geometry = new THREE.BufferGeometry().setFromPoints(points);
+      const line = new THREE.Line(geometry, material);
+      line.rotation.y = rotationAngle;
+      this.root.add(line);
+    };
+
+    for (let i = 0; i < 8; i++) {
+      const angle = (i / 8) * Math.PI;
+      createFieldLoop(8, 15, angle);  // Inner loop
+      createFieldLoop(15, 30, angle); // Outer loop
+    }
+
+    this.root.rotation.z = 0.1; // Tilt
+  }
+
+  update({ delta, elapsed, blend, reducedMotion }: FrameState) {
+    this.root.rotation.y -= 0.12 * delta;
+    this.root.scale.setScalar(starScale(this.bodies, blend));
+    // Subtle breathing effect for field lines; every loop shares the material
+    if (this.material) this.material.opacity = 0.15 + (reducedMotion ? 0 : Math.sin(elapsed * 2.5) * 0.05);
+  }
+}
@@ -0,0 +1,54 @@
+import * as THREE from 'three';
+import { Layer } from './Layer';
+import { FrameState, LayerContext } from '../types';
+
+/** Faint additive gas clouds drifting around the system. */
+export class NebulaLayer extends Layer {
+  private clouds: THREE.Points[] = [];
+
+  protected build({ particleTexture }: LayerContext) {
+    const createNebula = (count: number, color: THREE.Color, range: number) => {
+      const geo = new THREE.BufferGeometry();
+      const pos = new Float32Array(count * 3);
+
+      for(let i=0; i<count; i++) {
+        // Random cloud distribution
+        const r = range + Math.random() * 100;
+        const theta = Math.random() * Math.PI * 2;
+        const phi = Math.random() * Math.PI;
+
+        pos[i*3] = r * Math.sin(phi) * Math.cos(theta);
+        pos[i*3+1] = r * Math.sin(phi) * Math.sin(theta) * 0.5; // flatten slightly
+        pos[i*3+2] = r * Math.cos(phi);
+      }
+
+      geo.setAttribute('position', new THREE.BufferAttribute(pos, 3));
+      const mat = new THREE.PointsMaterial({
+        size: 60,
+        color: color,
+        map: particleTexture || undefined,
+        transparent: true,
+        opacity: 0.08,
+        blending: THREE.AdditiveBlending,
+        depthWrite: false,
+      });
+      const mesh = new THREE.Points(geo, mat);
+      this.root.add(mesh);
+      this.clouds.push(mesh);
+    };
+
+    createNebula(100, new THREE.Color(0x330055), 200); // Purple
+    createNebula(100, new THREE.Color(0x002255), 250); // Blue
+  }
+
+  /** Draws only a fraction of each cloud; positions are random, so any prefix is uniform. */
+  setDensity(fraction: number) {
+    this.clouds.forEach(mesh => mesh.geometry.setDrawRange(0, Math.round(mesh.geometry.attributes.position.count * fraction)));
+  }
+
+  update({ delta }: FrameState) {
+    this.clouds.forEach((mesh, i) => {
+      mesh.rotation.y += 0.006 * delta * (i % 2 === 0 ? 1 : -1);
+    });
+  }
+}
@@ -0,0 +1,72 @@
+import * as THREE from 'three';
+import { Layer } from './Layer';
+import { FrameState, LayerContext } from '../types';
+import { starFragmentShader, starVertexShader } from '../shaders';
+
+/** Two shells of twinkling background stars, slowly counter-rotating. */
+export class StarfieldLayer extends Layer {
+  private fields: { mesh: THREE.Points; material: THREE.ShaderMaterial; count: number }[] = [];
+
+  protected build({ particleTexture }: LayerContext) {
+    const createTwinklingStars = (count: number, baseSize: number, radius: number) => {
+      const geo = new THREE.BufferGeometry();
+      const pos = new Float32Array(count * 3);
+      const sizes = new Float32Array(count);
+      const speeds = new Float32Array(count);
+      const brightness = new Float32Array(count);
+
+      for(let i=0; i<count; i++) {
+        const r = radius + Math.random() * 500;
+        const theta = Math.random() * Math.PI * 2;
+        const phi = Math.acos(2 * Math.random() - 1);
+
+        pos[i*3] = r * Math.sin(phi) * Math.cos(theta);
+        pos[i*3+1] = r * Math.sin(phi) * Math.sin(theta);
+        pos[i*3+2] = r * Math.cos(phi);
+
+        sizes[i] = baseSize * (0.5 + Math.random());
+        speeds[i] = 1.0 + Math.random() * 3.0;
+        brightness[i] = 0.5 + Math.random() * 0.5;
+      }
+
+      geo.setAttribute('position', new THREE.BufferAttribute(pos, 3));
+      geo.setAttribute('size', new THREE.BufferAttribute(sizes, 1));
+      geo.setAttribute('speed', new THREE.BufferAttribute(speeds, 1));
+      geo.setAttribute('brightness', new THREE.BufferAttribute(brightness, 1));
+
+      const material = new THREE.ShaderMaterial({
+        uniforms: {
+          uTime: { value: 0 },
+          pointTexture: { value: particleTexture }
+        },
+        vertexShader: starVertexShader,
+        fragmentShader: starFragmentShader,
+        transparent: true,
+        blending: THREE.AdditiveBlending,
+        depthWrite: false
+      });
+
+      const mesh = new THREE.Points(geo, material);
+      this.root.add(mesh);
+      return { mesh, material, count };
+    };
+
+    this.fields = [
+      createTwinklingStars(5000, 3.0, 600), // Background
+      createTwinklingStars(2000, 4.0, 300), // Foreground
+    ];
+  }
+
+  /** Draws only a fraction of each field; positions are random, so any prefix is uniform. */
+  setDensity(fraction: number) {
+    this.fields.forEach(sf => sf.mesh.geometry.setDrawRange(0, Math.round(sf.count * fraction)));
+  }
+
+  update({ delta, elapsed, reducedMotion }: FrameState) {
+    this.fields.forEach((sf, i) => {
+      sf.mesh.rotation.y -= 0.006 * delta * (i + 1);
+      // Holding the time still freezes the twinkle
+      if (!reducedMotion) sf.material.uniforms.uTime.value = elapsed;
+    });
+  }
+}
@@ -0,0 +1,70 @@
+import * as THREE from 'three';
+import { PlanetData } from '../../types';
+import { Layer } from './Layer';
+import { FrameState, LayerContext } from '../types';
+import { starScale } from '../placement';
+
+/** Wireframe corona and glow sprites around the star, sized with it. */
+export class SunEffectsLayer extends Layer {
+  private halos: THREE.Mesh[] = [];
+  private sprites: THREE.Sprite[] = [];
+  private bodies: PlanetData[] = [];
+
+  protected build({ particleTexture, bodies }: LayerContext) {
+    this.bodies = bodies;
+
+    const sunGeo = new THREE.SphereGeometry(5.2, 32, 32);
+    const fireMat1 = new THREE.MeshBasicMaterial({
+      color: 0xffaa00,
+      transparent: true,
+      opacity: 0.3,
+      blending: THREE.AdditiveBlending,
+      wireframe: true,
+    });
+    const sunFire1 = new THREE.Mesh(sunGeo, fireMat1);
+    this.root.add(sunFire1);
+    this.halos.push(sunFire1);
+
+    if (particleTexture) {
+      const spriteMat = new THREE.SpriteMaterial({
+        map: particleTexture,
+        color: 0xff5500,
+        transparent: true,
+        opacity: 0.6,
+        blending: THREE.AdditiveBlending
+      });
+      const sprite = new THREE.Sprite(spriteMat);
+      sprite.scale.set(30, 30, 1);
+      this.root.add(sprite);
+      this.sprites.push(sprite);
+
+      const spriteMat2 = new THREE.SpriteMaterial({
+        map: particleTexture,
+        color: 0xffdd44,
+        transparent: true,
+        opacity: 0.4,
+        blending: THREE.AdditiveBlending
+      });
+      const sprite2 = new THREE.Sprite(spriteMat2);
+      sprite2.scale.set(15, 15, 1);
+      this.root.add(sprite2);
+      this.sprites.push(sprite2);
+    }
+  }
+
+  update({ delta, elapsed, blend, reducedMotion }: FrameState) {
+    const sunScale = starScale(this.bodies, blend);
+    const breathing = reducedMotion ? 0 : 1;
+    this.sprites.forEach((sprite, i) => {
+      const scaleBase = (i === 0 ? 30 : 15) * sunScale;
+      const scaleVar = Math.sin(elapsed * 2 + i) * 2 * sunScale * breathing;
+      sprite.scale.set(scaleBase + scaleVar, scaleBase + scaleVar, 1);
+      sprite.material.rotation += 0.12 * delta * (i % 2 === 0 ? 1 : -1);
+    });
+    this.halos.forEach((halo) => {
+      halo.rotation.y -= 0.3 * delta;
+      halo.rotation.z += 0.12 * delta;
+      halo.scale.setScalar((1 + Math.sin(elapsed * 4) * 0.02 * breathing) * sunScale);
+    });
+  }
+}
@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import * as THREE from 'three';
+import { HeliosEngine } from './HeliosEngine';
+import { orbitAngle } from './placement';
+import { J2000_MS, SimulationClock } from '../utils/simulationClock';
+
+const DEG = Math.PI / 180;
+
+// Headless engine running at one simulated day per second, starting at J2000
+const createEngine = () => new HeliosEngine({ clock: new SimulationClock(new Date(J2000_MS), 1) });
+
+// Change in angle, wrapped to [-π, π)
+const turned = (from: number, to: number) => ((to - from + 3 * Math.PI) % (2 * Math.PI)) - Math.PI;
+
+describe('orbitAngle', () => {
+  it('turns with a heliocentric body, so the co-rotating camera follows Earth round the Sun', () => {
+    const engine = createEngine();
+    const earth = engine.bodies.find('earth')!;
+    const scratch = new THREE.Vector3();
+
+    const before = orbitAngle(scratch, earth.mesh.position);
+    engine.update(30);
+    const after = orbitAngle(scratch, earth.mesh.position);
+
+    // Near January's perihelion Earth moves about 1.02° a day; ecliptic +y is
+    // scene -z, so the scene angle decreases
+    expect(turned(before, after) / DEG).toBeCloseTo(-30 * 1.019, 0);
+    engine.dispose();
+  });
+
+  it('measures a moon around its parent rather than the Sun', () => {
+    const engine = createEngine();
+    const earth = engine.bodies.find('earth')!;
+    const moon = engine.bodies.find('moon')!;
+    const scratch = new THREE.Vector3();
+
+    const before = orbitAngle(scratch, moon.mesh.position, earth.mesh.position);
+    engine.update(27.321661 / 4);
+    const after = orbitAngle(scratch, moon.mesh.position, earth.mesh.position);
+
+    // A quarter of a sidereal month; the Moon's orbit is tilted and eccentric, so only roughly 90°
+    expect(Math.abs(turned(before, after)) / DEG).toBeGreaterThan(70);
+    expect(Math.abs(turned(before, after)) / DEG).toBeLessThan(110);
+    engine.dispose();
+  });
+
+  it('turns about a tilted pole so what the body circles keeps its place in the co-rotating frame', () => {
+    const engine = createEngine();
+    const uranus = engine.bodies.find('uranus')!;
+    const frame = uranus.mesh.quaternion;
+    const pole = new THREE.Vector3(0, 1, 0).applyQuaternion(frame);
+    // Component of a vector in the body's equatorial plane
+    const flatten = (v: THREE.Vector3) => v.clone().addScaledVector(pole, -v.dot(pole));
+    const scratch = new THREE.Vector3();
+
+    // The camera's offset from Uranus, as updateFollow turns it in body mode
+    const offset = new THREE.Vector3(3, 2, -1);
+    const toSunBefore = uranus.mesh.position.clone().negate();
+    const before = orbitAngle(scratch, uranus.mesh.position, undefined, frame);
+    const angleToSun = flatten(offset).angleTo(flatten(toSunBefore));
+    engine.update(2 * 365.25);
+    const after = orbitAngle(scratch, uranus.mesh.position, undefined, frame);
+    offset.applyAxisAngle(pole, -(after - before));
+
+    // Uranus lies on its side, so a turn about the scene's up axis would drift off its pole
+    expect(pole.angleTo(new THREE.Vector3(0, 1, 0)) / DEG).toBeGreaterThan(60);
+    expect(Math.abs(turned(before, after))).toBeGreaterThan(0);
+    expect(flatten(offset).angleTo(flatten(uranus.mesh.position.clone().negate()))).toBeCloseTo(angleToSun, 3);
+    engine.dispose();
+  });
+
+  it('leaves the position it was given untouched', () => {
+    const position = new THREE.Vector3(1, 0, 1);
+    orbitAngle(new THREE.Vector3(), position, new THREE.Vector3(2, 0, 0));
+    expect(position.toArray()).toEqual([1, 0, 1]);
+  });
+});
+
+describe('placeSatellite', () => {
+  // Unit normal of a moon's orbit in the scene, from two positions a quarter-orbit apart
+  const orbitNormal = (engine: HeliosEngine, id: string) => {
+    const moon = engine.bodies.find(id)!;
+    const parent = moon.parent!;
+    const first = moon.mesh.position.clone().sub(parent.mesh.position);
+    engine.update(moon.data.satelliteOrbit!.periodDays / 4);
+    const second = moon.mesh.position.clone().sub(parent.mesh.position);
+    return new THREE.Vector3().crossVectors(first, second).normalize();
+  };
+
+  // The parent's north pole: its mesh's y axis
+  const poleOf = (engine: HeliosEngine, id: string) =>
+    new THREE.Vector3(0, 1, 0).applyQuaternion(engine.bodies.find(id)!.mesh.quaternion);
+
+  it('keeps Titan in the plane of Saturn\'s rings', () => {
+    const engine = createEngine();
+    const angle = orbitNormal(engine, 'titan').angleTo(poleOf(engine, 'saturn')) / DEG;
+    expect(angle).toBeLessThan(1);
+    engine.dispose();
+  });
+
+  it('runs Triton retrograde, inclined to Neptune\'s equator', () => {
+    const engine = createEngine();
+    const angle = orbitNormal(engine, 'triton').angleTo(poleOf(engine, 'neptune')) / DEG;
+    expect(angle).toBeCloseTo(156.885, 0);
+    engine.dispose();
+  });
+
+  it('keeps the Moon close to the ecliptic rather than Earth\'s equator', () => {
+    const engine = createEngine();
+    const angle = orbitNormal(engine, 'moon').angleTo(new THREE.Vector3(0, 1, 0)) / DEG;
+    expect(angle).toBeCloseTo(5.145, 0);
+    engine.dispose();
+  });
+});
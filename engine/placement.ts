@@ -0,0 +1,118 @@
+import * as THREE from 'three';
+import { BodyFeature, BodyRotation, PlanetData, SatelliteOrbit, Vector3 } from '../types';
+import { orbitPath, satelliteOrbitPath, satellitePosition } from '../utils/kepler';
+import { heliocentricPosition } from '../utils/ephemeris';
+import { rotationAxes } from '../utils/rotation';
+import { ScaleBlend, blendScale, sceneDistance, sceneRadius, satelliteDistance } from '../utils/scale';
+
+// Scene placement shared by the layers. Plain math on Three.js vectors and
+// buffers, with no renderer or DOM involved.
+
+export const ORBIT_SEGMENTS = 128;
+
+export function findFeature<T extends BodyFeature['type']>(planetData: PlanetData, type: T): Extract<BodyFeature, { type: T }> | undefined {
+  return planetData.features?.find((f): f is Extract<BodyFeature, { type: T }> => f.type === type);
+}
+
+// Ecliptic coordinates have z towards the ecliptic north pole; the scene uses y-up.
+// The scale mode maps heliocentric distance radially, keeping the direction.
+export function setScenePosition(target: THREE.Vector3, ecliptic: Vector3, blend: ScaleBlend) {
+  const au = Math.hypot(ecliptic.x, ecliptic.y, ecliptic.z);
+  const k = au > 0 ? blendScale(blend, m => sceneDistance(au, m)) / au : 0;
+  target.set(ecliptic.x * k, ecliptic.z * k, -ecliptic.y * k);
+}
+
+// Rotation taking the scene's y axis to the body's north pole and its x axis to
+// the prime meridian for W = 0
+export function poleQuaternion(target: THREE.Quaternion, rotation: BodyRotation): THREE.Quaternion {
+  const { pole, node } = rotationAxes(rotation);
+  const y = new THREE.Vector3(pole.x, pole.z, -pole.y);
+  const x = new THREE.Vector3(node.x, node.z, -node.y);
+  const z = new THREE.Vector3().crossVectors(x, y);
+  return target.setFromRotationMatrix(new THREE.Matrix4().makeBasis(x, y, z));
+}
+
+// Points the object's y axis along the body's north pole and its x axis at the
+// prime meridian for W = 0, so turning about y by W shows the right face to the Sun
+export function orientToPole(object: THREE.Object3D, planetData: PlanetData) {
+  if (!planetData.rotation) return;
+  poleQuaternion(object.quaternion, planetData.rotation);
+}
+
+// Orientation of a satellite's orbital frame in the scene: the parent's pole
+// basis, as used for its mesh, unless the orbit is measured from the ecliptic
+// or the parent has no pole on record
+export function satelliteFrame(target: THREE.Quaternion, orbit: SatelliteOrbit, parent: PlanetData): THREE.Quaternion {
+  if (orbit.referencePlane === 'ecliptic' || !parent.rotation) return target.identity();
+  return poleQuaternion(target, parent.rotation);
+}
+
+const inverseFrame = new THREE.Quaternion();
+
+// Angle of a body around what it circles (its parent, else the Sun at the origin),
+// measured about the y axis of `frame` (the body's pole, for a pole-oriented
+// group), else the scene's; `scratch` receives the relative position in that frame
+export function orbitAngle(scratch: THREE.Vector3, position: THREE.Vector3, parentPosition?: THREE.Vector3, frame?: THREE.Quaternion): number {
+  const relative = scratch.copy(position);
+  if (parentPosition) relative.sub(parentPosition);
+  if (frame) relative.applyQuaternion(inverseFrame.copy(frame).invert());
+  return Math.atan2(relative.z, relative.x);
+}
+
+// Date-accurate heliocentric position from the body's mean elements
+export function placeBody(object: THREE.Object3D, planetData: PlanetData, daysSinceJ2000: number, blend: ScaleBlend) {
+  if (!planetData.orbit) return;
+  setScenePosition(object.position, heliocentricPosition(planetData.orbit, daysSinceJ2000), blend);
+}
+
+// Parent-relative position; satellite distances follow their own scale curve.
+// The offset is in the orbit's reference frame, which `frame` turns into the scene's.
+export function setSatelliteScenePosition(target: THREE.Vector3, offsetKm: Vector3, parent: PlanetData, blend: ScaleBlend, frame: THREE.Quaternion) {
+  const km = Math.hypot(offsetKm.x, offsetKm.y, offsetKm.z);
+  const k = km > 0 ? blendScale(blend, m => satelliteDistance(km, parent, m)) / km : 0;
+  target.set(offsetKm.x * k, offsetKm.z * k, -offsetKm.y * k).applyQuaternion(frame);
+}
+
+// Also turns the satellite into its orbital frame, so a tidally locked spin about
+// its y axis keeps the same face towards the parent
+export function placeSatellite(object: THREE.Object3D, planetData: PlanetData, parent: PlanetData, daysSinceJ2000: number, blend: ScaleBlend) {
+  if (!planetData.satelliteOrbit) return;
+  satelliteFrame(object.quaternion, planetData.satelliteOrbit, parent);
+  setSatelliteScenePosition(object.position, satellitePosition(planetData.satelliteOrbit, daysSinceJ2000), parent, blend, object.quaternion);
+}
+
+/** Refills an orbit line's vertices for the current scale blend. */
+export function updateOrbit(orbit: THREE.Line, data: PlanetData, parent: PlanetData | undefined, blend: ScaleBlend) {
+  const attribute = orbit.geometry.attributes.position as THREE.BufferAttribute;
+  const point = new THREE.Vector3();
+  if (data.orbit) {
+    orbitPath(data.orbit, ORBIT_SEGMENTS).forEach((p, i) => {
+      setScenePosition(point, p, blend);
+      attribute.setXYZ(i, point.x, point.y, point.z);
+    });
+  } else if (data.satelliteOrbit && parent) {
+    const frame = satelliteFrame(new THREE.Quaternion(), data.satelliteOrbit, parent);
+    satelliteOrbitPath(data.satelliteOrbit, ORBIT_SEGMENTS).forEach((p, i) => {
+      setSatelliteScenePosition(point, p, parent, blend, frame);
+      attribute.setXYZ(i, point.x, point.y, point.z);
+    });
+  }
+  attribute.needsUpdate = true;
+  orbit.computeLineDistances();
+  orbit.geometry.computeBoundingSphere();
+}
+
+// Scene distances at evenly spaced heliocentric distances from auMin to auMax,
+// for shaders that place points themselves and interpolate between samples
+export function sampleSceneDistances(target: Float32Array, auMin: number, auMax: number, blend: ScaleBlend) {
+  for (let i = 0; i < target.length; i++) {
+    const au = auMin + ((auMax - auMin) * i) / (target.length - 1);
+    target[i] = blendScale(blend, m => sceneDistance(au, m));
+  }
+}
+
+/** How much the star's artistic size is scaled by the current blend; 1 without a star. */
+export function starScale(bodies: PlanetData[], blend: ScaleBlend): number {
+  const star = bodies.find(p => p.kind === 'star');
+  return star ? blendScale(blend, m => sceneRadius(star, m)) / star.radius : 1;
+}
@@ -0,0 +1,242 @@
+import { PlanetData, ProceduralSurface } from '../types';
+
+// Procedural body surfaces, painted into equirectangular maps (row 0 is the
+// north pole, longitude runs across). Used when no image can be loaded, and for
+// bodies the catalog has no image for. Noise is sampled on the unit sphere so
+// the maps have no seam and no pinching at the poles, and seeded from the
+// body's id so each body looks the same on every visit.
+
+type Rgb = [number, number, number];
+
+const hexToRgb = (hex: string): Rgb => {
+  const n = parseInt(hex.slice(1), 16);
+  return [(n >> 16) & 255, (n >> 8) & 255, n & 255];
+};
+
+const mix = (a: Rgb, b: Rgb, t: number): Rgb =>
+  [a[0] + (b[0] - a[0]) * t, a[1] + (b[1] - a[1]) * t, a[2] + (b[2] - a[2]) * t];
+
+/** Samples a palette as a gradient, t in [0, 1]. */
+const ramp = (palette: Rgb[], t: number): Rgb => {
+  const x = Math.min(Math.max(t, 0), 1) * (palette.length - 1);
+  const i = Math.min(Math.floor(x), palette.length - 2);
+  return i < 0 ? palette[0] : mix(palette[i], palette[i + 1], x - i);
+};
+
+const smoothstep = (edge0: number, edge1: number, x: number): number => {
+  const t = Math.min(Math.max((x - edge0) / (edge1 - edge0), 0), 1);
+  return t * t * (3 - 2 * t);
+};
+
+/** FNV-1a, to turn a body id into a seed. */
+const hashString = (text: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/** mulberry32: small, fast and good enough for scattering craters. */
+const createRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+/** Seeded 3-D value noise in [0, 1], and fractal sums of it. */
+const createNoise = (random: () => number) => {
+  const perm = new Uint8Array(512);
+  const values = new Float32Array(256);
+  for (let i = 0; i < 256; i++) {
+    perm[i] = i;
+    values[i] = random();
+  }
+  for (let i = 255; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [perm[i], perm[j]] = [perm[j], perm[i]];
+  }
+  perm.copyWithin(256, 0, 256);
+
+  const lattice = (x: number, y: number, z: number) => values[perm[perm[perm[x & 255] + (y & 255)] + (z & 255)]];
+  const fade = (t: number) => t * t * (3 - 2 * t);
+
+  const noise = (x: number, y: number, z: number): number => {
+    const xi = Math.floor(x), yi = Math.floor(y), zi = Math.floor(z);
+    const u = fade(x - xi), v = fade(y - yi), w = fade(z - zi);
+    const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+    return lerp(
+      lerp(
+        lerp(lattice(xi, yi, zi), lattice(xi + 1, yi, zi), u),
+        lerp(lattice(xi, yi + 1, zi), lattice(xi + 1, yi + 1, zi), u), v),
+      lerp(
+        lerp(lattice(xi, yi, zi + 1), lattice(xi + 1, yi, zi + 1), u),
+        lerp(lattice(xi, yi + 1, zi + 1), lattice(xi + 1, yi + 1, zi + 1), u), v),
+      w);
+  };
+
+  const fbm = (x: number, y: number, z: number, octaves: number): number => {
+    let sum = 0, amplitude = 0.5, total = 0;
+    for (let o = 0; o < octaves; o++) {
+      sum += noise(x, y, z) * amplitude;
+      total += amplitude;
+      x *= 2.03; y *= 2.03; z *= 2.03;
+      amplitude *= 0.5;
+    }
+    return sum / total;
+  };
+
+  return { noise, fbm };
+};
+
+type Noise = ReturnType<typeof createNoise>;
+
+/** Colour of the surface at a point on the unit sphere (y is north), before craters. */
+type Shader = (x: number, y: number, z: number) => Rgb;
+
+const shaders: Record<ProceduralSurface['style'], (surface: ProceduralSurface, palette: Rgb[], n: Noise) => Shader> = {
+  // Latitude stripes cycling through the palette, pushed about by large eddies
+  banded: ({ bands = 10, turbulence = 0.3 }, palette, { noise, fbm }) => (x, y, z) => {
+    const warp = (fbm(x * 3, y * 3, z * 3, 4) - 0.5) * turbulence * 0.15;
+    const stripe = (Math.asin(y) / Math.PI + 0.5 + warp) * bands;
+    const i = Math.floor(stripe);
+    const edge = smoothstep(0.65, 1, stripe - i);
+    const at = (k: number) => palette[((k % palette.length) + palette.length) % palette.length];
+    const color = mix(at(i), at(i + 1), edge);
+    // Fine streaks drawn out along the direction of the winds
+    const streak = 0.92 + 0.16 * noise(x * 4, y * 60, z * 4);
+    return [color[0] * streak, color[1] * streak, color[2] * streak];
+  },
+
+  // Mottled regolith; the craters come afterwards
+  rocky: (_, palette, { fbm }) => (x, y, z) =>
+    ramp(palette, smoothstep(0.25, 0.75, fbm(x * 3, y * 3, z * 3, 5))),
+
+  // Bright ice crossed by dark, ridge-like lineae
+  icy: (_, palette, { noise, fbm }) => {
+    const ice = palette.slice(1);
+    const dark = palette[0];
+    return (x, y, z) => {
+      const base = ramp(ice.length > 1 ? ice : palette, smoothstep(0.3, 0.7, fbm(x * 2.5, y * 2.5, z * 2.5, 4)));
+      const warp = fbm(x * 2 + 7, y * 2, z * 2, 3);
+      const ridge = 1 - Math.abs(2 * noise(x * 5 + warp * 2, y * 5, z * 5 + warp * 2) - 1);
+      return mix(base, dark, smoothstep(0.9, 0.98, ridge) * 0.6);
+    };
+  },
+
+  // Oceans, continents with desert belts, and ice caps
+  terrestrial: (_, [deep, shallow, green, desert, ice], { fbm }) => (x, y, z) => {
+    const SEA_LEVEL = 0.52;
+    const height = fbm(x * 2.5, y * 2.5, z * 2.5, 6);
+    const latitude = Math.abs(Math.asin(y)) * 180 / Math.PI;
+    const capEdge = 80 - fbm(x * 6, y * 6, z * 6, 3) * 12;
+    if (latitude > capEdge) return ice;
+    if (height < SEA_LEVEL) return mix(deep, shallow, smoothstep(SEA_LEVEL - 0.08, SEA_LEVEL, height));
+    // Dry around the subtropics and in continental interiors
+    const dryness = smoothstep(0.5, 0.75, fbm(x * 4 + 11, y * 4, z * 4, 4) + (1 - Math.abs(latitude - 25) / 25) * 0.25 + (height - SEA_LEVEL));
+    return mix(green, desert, dryness);
+  },
+
+  // Convection cells: bright upwellings edged by dark lanes
+  granulated: (_, palette, { noise, fbm }) => (x, y, z) => {
+    const cells = 1 - Math.abs(2 * noise(x * 24, y * 24, z * 24) - 1);
+    const glow = fbm(x * 4, y * 4, z * 4, 3);
+    return ramp(palette, cells * 0.7 + glow * 0.3);
+  },
+};
+
+/**
+ * Darkens and brightens `shade` (one multiplier per pixel) with bowl-shaped
+ * craters: a dark floor and a bright rim. Sizes follow a power law, so there
+ * are many small craters for every large one.
+ */
+const stampCraters = (shade: Float32Array, width: number, height: number, count: number, random: () => number) => {
+  for (let c = 0; c < count; c++) {
+    const lat = Math.asin(2 * random() - 1);
+    const lon = random() * Math.PI * 2;
+    const cx = Math.cos(lat) * Math.cos(lon), cy = Math.sin(lat), cz = -Math.cos(lat) * Math.sin(lon);
+    const radius = Math.min(0.01 * Math.pow(1 - random(), -1 / 1.6), 0.25); // Radians
+    const depth = 0.15 + random() * 0.2;
+    const reach = radius * 1.3;
+
+    const rowFrom = Math.max(0, Math.floor((0.5 - (lat + reach) / Math.PI) * height));
+    const rowTo = Math.min(height - 1, Math.ceil((0.5 - (lat - reach) / Math.PI) * height));
+    for (let row = rowFrom; row <= rowTo; row++) {
+      const rowLat = (0.5 - (row + 0.5) / height) * Math.PI;
+      // Columns within reach, widening towards the poles
+      const cosLat = Math.cos(rowLat);
+      const span = cosLat > Math.sin(reach) ? Math.asin(Math.sin(reach) / cosLat) : Math.PI;
+      const colFrom = Math.floor(((lon - span) / (2 * Math.PI) + 0.5) * width);
+      const colTo = Math.ceil(((lon + span) / (2 * Math.PI) + 0.5) * width);
+      for (let col = colFrom; col <= colTo && col < colFrom + width; col++) {
+        const wrapped = ((col % width) + width) % width;
+        // The map's column 0 is longitude −π; crater longitudes are measured the same way
+        const colLon = ((col + 0.5) / width - 0.5) * 2 * Math.PI;
+        const px = cosLat * Math.cos(colLon), py = Math.sin(rowLat), pz = -cosLat * Math.sin(colLon);
+        const distance = Math.acos(Math.min(1, px * cx + py * cy + pz * cz)) / radius;
+        if (distance >= 1.3) continue;
+        const floor = distance < 1 ? -depth * (1 - distance * distance) : 0;
+        const rim = depth * 0.8 * Math.exp(-(((distance - 1) / 0.12) ** 2));
+        shade[row * width + wrapped] *= 1 + floor + rim;
+      }
+    }
+  }
+};
+
+/**
+ * Paints a surface into RGBA pixels, `width` × `height`, equirectangular.
+ * Pure, so it runs the same in a worker or under Node.
+ */
+export const paintSurface = (surface: ProceduralSurface, seed: string, width: number, height: number): Uint8ClampedArray => {
+  const random = createRandom(hashString(seed));
+  const palette = surface.colors.map(hexToRgb);
+  const shader = shaders[surface.style](surface, palette, createNoise(random));
+
+  const shade = new Float32Array(width * height).fill(1);
+  if (surface.craters && (surface.style === 'rocky' || surface.style === 'icy')) {
+    stampCraters(shade, width, height, surface.craters, random);
+  }
+
+  const pixels = new Uint8ClampedArray(width * height * 4);
+  for (let row = 0; row < height; row++) {
+    const lat = (0.5 - (row + 0.5) / height) * Math.PI;
+    const y = Math.sin(lat), r = Math.cos(lat);
+    for (let col = 0; col < width; col++) {
+      const lon = ((col + 0.5) / width - 0.5) * 2 * Math.PI;
+      const color = shader(r * Math.cos(lon), y, -r * Math.sin(lon));
+      const k = shade[row * width + col];
+      const i = (row * width + col) * 4;
+      pixels[i] = color[0] * k;
+      pixels[i + 1] = color[1] * k;
+      pixels[i + 2] = color[2] * k;
+      pixels[i + 3] = 255;
+    }
+  }
+  return pixels;
+};
+
+/** A recipe for bodies the catalog gives none: cratered rock, or granulation for a star, in the body's colour. */
+export const defaultSurface = (body: PlanetData): ProceduralSurface => {
+  const [r, g, b] = hexToRgb(body.color);
+  const shade = (k: number) =>
+    `#${[r, g, b].map(c => Math.round(Math.min(255, c * k)).toString(16).padStart(2, '0')).join('')}`;
+  const colors = [shade(0.55), shade(1), shade(1.3)];
+  return body.kind === 'star' ? { style: 'granulated', colors } : { style: 'rocky', colors, craters: 100 };
+};
+
+/** Paints the body's procedural surface into a canvas; null without a 2D canvas. */
+export const createSurfaceCanvas = (body: PlanetData): HTMLCanvasElement | null => {
+  if (typeof document === 'undefined') return null;
+  // Stars and planets are seen up close most often
+  const large = body.kind === 'star' || body.kind === 'planet';
+  const canvas = document.createElement('canvas');
+  canvas.width = large ? 512 : 256;
+  canvas.height = large ? 256 : 128;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+  const pixels = paintSurface(body.surface ?? defaultSurface(body), body.id, canvas.width, canvas.height);
+  ctx.putImageData(new ImageData(pixels, canvas.width, canvas.height), 0, 0);
+  return canvas;
+};
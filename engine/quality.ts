@@ -0,0 +1,87 @@
+import { QualityPreset } from '../utils/settings';
+
+// Rendering quality presets, and the controller that picks one from the frame
+// rate in auto mode. No renderer or DOM involved.
+
+export type QualityLevel = Exclude<QualityPreset, 'auto'>;
+
+export interface QualityProfile {
+  maxPixelRatio: number; // Cap on the device pixel ratio
+  shadowMapSize: number; // Texels per side of each face of the Sun's shadow map
+  particles: number; // Fraction of the star fields, nebulae and belts drawn, 0–1
+  detail: number; // Sphere segments around the equator per on-screen pixel of radius
+  maxSegments: number;
+}
+
+export const QUALITY_LEVELS: QualityLevel[] = ['low', 'medium', 'high'];
+
+export const QUALITY_PROFILES: Record<QualityLevel, QualityProfile> = {
+  low: { maxPixelRatio: 1, shadowMapSize: 512, particles: 0.35, detail: 0.4, maxSegments: 32 },
+  medium: { maxPixelRatio: 1.5, shadowMapSize: 1024, particles: 0.65, detail: 0.8, maxSegments: 64 },
+  high: { maxPixelRatio: 2, shadowMapSize: 2048, particles: 1, detail: 1.6, maxSegments: 128 },
+};
+
+// Tessellations built on demand; each is twice the one before
+export const SPHERE_SEGMENTS = [8, 16, 32, 64, 128];
+
+/** Segments around the equator for a sphere `pixelRadius` device pixels across its radius. */
+export const sphereSegments = (pixelRadius: number, profile: QualityProfile): number => {
+  const wanted = Math.min(pixelRadius * profile.detail, profile.maxSegments);
+  return SPHERE_SEGMENTS.find(s => s >= wanted) ?? SPHERE_SEGMENTS[SPHERE_SEGMENTS.length - 1];
+};
+
+// Auto mode: step down when frames average slower than SLOW_MS over a window,
+// up when they've averaged faster than FAST_MS for a while. Each step down
+// doubles the wait before the next step up, so a level that just failed isn't
+// retried straight away.
+const SLOW_MS = 1000 / 30;
+const FAST_MS = 1000 / 50;
+const WINDOW_SECONDS = 2;
+const UPGRADE_SECONDS = 5;
+const MAX_UPGRADE_SECONDS = 120;
+// Longer gaps are a hidden tab or a breakpoint, not a slow frame
+const MAX_FRAME_SECONDS = 0.25;
+
+/** Watches frame times and says when auto mode should change level. */
+export class AutoQuality {
+  private frames = 0;
+  private seconds = 0;
+  private fastSeconds = 0;
+  private upgradeSeconds = UPGRADE_SECONDS;
+  level: QualityLevel;
+
+  constructor(level: QualityLevel = 'medium') {
+    this.level = level;
+  }
+
+  /** Records a frame; returns the new level when it should change, else null. */
+  sample(deltaSeconds: number): QualityLevel | null {
+    if (deltaSeconds <= 0 || deltaSeconds > MAX_FRAME_SECONDS) return null;
+    this.frames++;
+    this.seconds += deltaSeconds;
+    if (this.seconds < WINDOW_SECONDS) return null;
+
+    const averageMs = (this.seconds / this.frames) * 1000;
+    const window = this.seconds;
+    this.frames = 0;
+    this.seconds = 0;
+    const index = QUALITY_LEVELS.indexOf(this.level);
+
+    if (averageMs > SLOW_MS) {
+      this.fastSeconds = 0;
+      if (index === 0) return null;
+      this.upgradeSeconds = Math.min(this.upgradeSeconds * 2, MAX_UPGRADE_SECONDS);
+      return this.step(index - 1);
+    }
+
+    this.fastSeconds = averageMs < FAST_MS ? this.fastSeconds + window : 0;
+    if (this.fastSeconds < this.upgradeSeconds || index === QUALITY_LEVELS.length - 1) return null;
+    this.fastSeconds = 0;
+    return this.step(index + 1);
+  }
+
+  private step(index: number): QualityLevel {
+    this.level = QUALITY_LEVELS[index];
+    return this.level;
+  }
+}
@@ -0,0 +1,286 @@
+// GLSL sources for the layers' shader materials
+
+// Small-body belts: every point moves along its own orbit, computed here from
+// per-point elements, so the CPU only touches a uniform or two per frame
+export const beltVertexShader = `
+  attribute float size;
+  attribute vec4 orbit; // a (AU), e, mean motion (rad/day), mean anomaly at J2000 (rad)
+  attribute vec3 orientation; // i, node, argument of perihelion (rad)
+  uniform float uDays;
+  uniform float uDistance[DISTANCE_SAMPLES]; // Scene distance, evenly spaced over uAuRange
+  uniform vec2 uAuRange;
+
+  float sceneDistance(float au) {
+    float x = clamp((au - uAuRange.x) / (uAuRange.y - uAuRange.x), 0.0, 1.0) * float(DISTANCE_SAMPLES - 1);
+    int i = int(min(floor(x), float(DISTANCE_SAMPLES - 2)));
+    return mix(uDistance[i], uDistance[i + 1], x - float(i));
+  }
+
+  void main() {
+    // Kepler's equation by Newton's method; belt eccentricities converge in a few steps
+    float e = orbit.y;
+    float M = mod(orbit.w + orbit.z * uDays, 6.2831853);
+    float E = M + e * sin(M);
+    for (int k = 0; k < 6; k++) E -= (E - e * sin(E) - M) / (1.0 - e * cos(E));
+    vec2 p = orbit.x * vec2(cos(E) - e, sqrt(1.0 - e * e) * sin(E));
+
+    // Perifocal plane to ecliptic, as in utils/kepler
+    float ci = cos(orientation.x), si = sin(orientation.x);
+    float cO = cos(orientation.y), sO = sin(orientation.y);
+    float cw = cos(orientation.z), sw = sin(orientation.z);
+    vec3 ecliptic = vec3(
+      (cw * cO - sw * sO * ci) * p.x + (-sw * cO - cw * sO * ci) * p.y,
+      (cw * sO + sw * cO * ci) * p.x + (-sw * sO + cw * cO * ci) * p.y,
+      (sw * si) * p.x + (cw * si) * p.y
+    );
+    float au = length(ecliptic);
+    vec3 scenePosition = vec3(ecliptic.x, ecliptic.z, -ecliptic.y) * (sceneDistance(au) / au);
+
+    vec4 mvPosition = modelViewMatrix * vec4(scenePosition, 1.0);
+    gl_PointSize = size * (300.0 / -mvPosition.z);
+    gl_Position = projectionMatrix * mvPosition;
+  }
+`;
+
+export const beltFragmentShader = `
+  uniform vec3 color;
+  void main() {
+    if (length(gl_PointCoord - vec2(0.5)) > 0.5) discard;
+    gl_FragColor = vec4(color, 1.0);
+  }
+`;
+
+// Twinkling star fields
+export const starVertexShader = `
+  attribute float size;
+  attribute float speed;
+  attribute float brightness;
+  varying float vAlpha;
+  uniform float uTime;
+  void main() {
+    vec4 mvPosition = modelViewMatrix * vec4(position, 1.0);
+    gl_PointSize = size * (300.0 / -mvPosition.z);
+    gl_Position = projectionMatrix * mvPosition;
+
+    float twinkle = sin(uTime * speed + position.x * 0.05);
+    vAlpha = 0.5 + 0.5 * twinkle;
+    vAlpha *= brightness;
+  }
+`;
+
+export const starFragmentShader = `
+  uniform sampler2D pointTexture;
+  varying float vAlpha;
+  void main() {
+    vec4 tex = texture2D(pointTexture, gl_PointCoord);
+    gl_FragColor = vec4(1.0, 1.0, 1.0, vAlpha) * tex;
+  }
+`;
+
+// Also the vertex stage of the atmosphere fresnel shell
+export const auroraVertexShader = `
+  varying vec2 vUv;
+  varying vec3 vNormal;
+  varying vec3 vViewPosition;
+  void main() {
+    vUv = uv;
+    vNormal = normalize(normalMatrix * normal);
+    vec4 mvPosition = modelViewMatrix * vec4(position, 1.0);
+    vViewPosition = -mvPosition.xyz;
+    gl_Position = projectionMatrix * mvPosition;
+  }
+`;
+
+export const auroraFragmentShader = `
+  uniform float uTime;
+  varying vec2 vUv;
+  varying vec3 vNormal;
+  varying vec3 vViewPosition;
+
+  vec3 permute(vec3 x) { return mod(((x*34.0)+1.0)*x, 289.0); }
+
+  float snoise(vec2 v){
+    const vec4 C = vec4(0.211324865405187, 0.366025403784439,
+             -0.577350269189626, 0.024390243902439);
+    vec2 i  = floor(v + dot(v, C.yy) );
+    vec2 x0 = v -   i + dot(i, C.xx);
+    vec2 i1;
+    i1 = (x0.x > x0.y) ? vec2(1.0, 0.0) : vec2(0.0, 1.0);
+    vec4 x12 = x0.xyxy + C.xxzz;
+    x12.xy -= i1;
+    i = mod(i, 289.0);
+    vec3 p = permute( permute( i.y + vec3(0.0, i1.y, 1.0 ))
+    + i.x + vec3(0.0, i1.x, 1.0 ));
+    vec3 m = max(0.5 - vec3(dot(x0,x0), dot(x12.xy,x12.xy), dot(x12.zw,x12.zw)), 0.0);
+    m = m*m ;
+    m = m*m ;
+    vec3 x = 2.0 * fract(p * C.www) - 1.0;
+    vec3 h = abs(x) - 0.5;
+    vec3 ox = floor(x + 0.5);
+    vec3 a0 = x - ox;
+    m *= 1.79284291400159 - 0.85373472095314 * ( a0*a0 + h*h );
+    vec3 g;
+    g.x  = a0.x  * x0.x  + h.x  * x0.y;
+    g.yz = a0.yz * x12.xz + h.yz * x12.yw;
+    return 130.0 * dot(m, g);
+  }
+
+  void main() {
+    float viewDirDiff = dot(normalize(vViewPosition), vNormal);
+    float fresnel = 1.0 - abs(viewDirDiff);
+    fresnel = pow(fresnel, 2.0);
+
+    float distFromCenter = abs(vUv.y - 0.5) * 2.0;
+    // Focus on poles: 0.7 to 0.95
+    float mask = smoothstep(0.65, 0.8, distFromCenter) * (1.0 - smoothstep(0.98, 1.0, distFromCenter));
+
+    float noise1 = snoise(vec2(vUv.x * 12.0 + uTime * 0.1, vUv.y * 10.0));
+    float noise2 = snoise(vec2(vUv.x * 18.0 - uTime * 0.15, vUv.y * 15.0 + uTime * 0.05));
+
+    float combinedNoise = (noise1 + noise2) * 0.5;
+    float streaks = smoothstep(0.2, 0.7, combinedNoise);
+
+    vec3 colorGreen = vec3(0.0, 1.0, 0.6);
+    vec3 colorPurple = vec3(0.6, 0.2, 1.0);
+    vec3 auroraColor = mix(colorGreen, colorPurple, sin(vUv.x * 6.0 + uTime) * 0.5 + 0.5);
+
+    float alpha = mask * streaks * 0.5 * fresnel;
+    gl_FragColor = vec4(auroraColor, alpha);
+  }
+`;
+
+export const atmosphereFragmentShader = `
+  uniform vec3 uColor;
+  uniform float uOpacity;
+  varying vec3 vNormal;
+  varying vec3 vViewPosition;
+  void main() {
+    float fresnel = 1.0 - abs(dot(normalize(vViewPosition), vNormal));
+    gl_FragColor = vec4(uColor, pow(fresnel, 3.0) * uOpacity);
+  }
+`;
+
+// Comet tails: a unit-length particle cone along +z, scaled and aimed every frame
+export const tailVertexShader = `
+  attribute float size;
+  attribute float along;
+  varying float vFade;
+  void main() {
+    vec4 mvPosition = modelViewMatrix * vec4(position, 1.0);
+    gl_PointSize = size * (300.0 / -mvPosition.z);
+    gl_Position = projectionMatrix * mvPosition;
+    vFade = 1.0 - along;
+  }
+`;
+
+export const tailFragmentShader = `
+  uniform sampler2D pointTexture;
+  uniform vec3 uColor;
+  uniform float uBrightness;
+  varying float vFade;
+  void main() {
+    vec4 tex = texture2D(pointTexture, gl_PointCoord);
+    gl_FragColor = vec4(uColor, vFade * vFade * uBrightness) * tex;
+  }
+`;
+
+// City lights: a shell over the night side. Cities are speckled value noise,
+// kept to land by reading the day map (blue-dominated texels are sea, grey
+// ones ice). Alpha also darkens the night side so the terminator reads clearly.
+export const nightLightsVertexShader = `
+  varying vec2 vUv;
+  varying vec3 vWorldNormal;
+  varying vec3 vWorldPosition;
+  void main() {
+    vUv = uv;
+    vWorldNormal = normalize(mat3(modelMatrix) * normal);
+    vec4 worldPosition = modelMatrix * vec4(position, 1.0);
+    vWorldPosition = worldPosition.xyz;
+    gl_Position = projectionMatrix * viewMatrix * worldPosition;
+  }
+`;
+
+export const nightLightsFragmentShader = `
+  uniform vec3 uColor;
+  uniform float uIntensity;
+  uniform vec3 uSunPosition;
+  uniform sampler2D uDayMap;
+  uniform bool uHasDayMap;
+  varying vec2 vUv;
+  varying vec3 vWorldNormal;
+  varying vec3 vWorldPosition;
+
+  float hash(vec2 p) {
+    return fract(sin(dot(p, vec2(127.1, 311.7))) * 43758.5453);
+  }
+
+  float noise(vec2 p) {
+    vec2 i = floor(p);
+    vec2 f = fract(p);
+    vec2 u = f * f * (3.0 - 2.0 * f);
+    return mix(mix(hash(i), hash(i + vec2(1.0, 0.0)), u.x),
+               mix(hash(i + vec2(0.0, 1.0)), hash(i + vec2(1.0, 1.0)), u.x), u.y);
+  }
+
+  void main() {
+    vec3 toSun = normalize(uSunPosition - vWorldPosition);
+    float night = smoothstep(0.05, -0.15, dot(normalize(vWorldNormal), toSun));
+    if (night <= 0.0) discard;
+
+    float land = 1.0;
+    if (uHasDayMap) {
+      vec3 day = texture2D(uDayMap, vUv).rgb;
+      land = smoothstep(0.02, 0.08, max(day.r, day.g) - day.b) * (1.0 - smoothstep(0.6, 0.8, min(day.r, day.b)));
+    }
+    // Regions of settlement, then individual towns within them
+    float regions = smoothstep(0.45, 0.75, noise(vUv * vec2(24.0, 12.0)));
+    float towns = smoothstep(0.7, 0.95, noise(vUv * vec2(720.0, 360.0)));
+    float lights = land * regions * towns * uIntensity;
+
+    gl_FragColor = vec4(uColor * lights, night * max(0.35, lights));
+  }
+`;
+
+// Ring systems: the radial profile is looked up by distance from the planet's
+// centre, and the planet's shadow is found by casting a ray towards the Sun.
+export const ringVertexShader = `
+  varying vec2 vLocal;
+  varying vec3 vWorldPosition;
+  varying vec3 vCenter;
+  varying float vScale;
+  void main() {
+    vLocal = position.xy;
+    vec4 worldPosition = modelMatrix * vec4(position, 1.0);
+    vWorldPosition = worldPosition.xyz;
+    vCenter = (modelMatrix * vec4(0.0, 0.0, 0.0, 1.0)).xyz;
+    vScale = length(modelMatrix[0].xyz);
+    gl_Position = projectionMatrix * viewMatrix * worldPosition;
+  }
+`;
+
+export const ringFragmentShader = `
+  uniform sampler2D uProfile;
+  uniform float uPlanetRadius;
+  uniform float uInner;
+  uniform float uOuter;
+  uniform vec3 uSunPosition;
+  varying vec2 vLocal;
+  varying vec3 vWorldPosition;
+  varying vec3 vCenter;
+  varying float vScale;
+  void main() {
+    // Per fragment, so the long thin triangles don't bend the gaps
+    float radius = length(vLocal) / uPlanetRadius;
+    vec4 band = texture2D(uProfile, vec2((radius - uInner) / (uOuter - uInner), 0.5));
+    if (band.a < 0.004) discard;
+
+    vec3 toSun = normalize(uSunPosition - vWorldPosition);
+    vec3 toCenter = vCenter - vWorldPosition;
+    float along = dot(toCenter, toSun);
+    float miss = length(toCenter - toSun * along);
+    float planet = uPlanetRadius * vScale;
+    float shadow = along > 0.0 ? 1.0 - smoothstep(planet * 0.97, planet * 1.03, miss) : 0.0;
+
+    gl_FragColor = vec4(band.rgb * mix(1.0, 0.15, shadow), band.a);
+  }
+`;
@@ -0,0 +1,74 @@
+import * as THREE from 'three';
+import { RingsFeature } from '../types';
+
+/** Soft radial sprite shared by the particle layers; null without a 2D canvas. */
+export const createParticleTexture = (): THREE.Texture | null => {
+  if (typeof document === 'undefined') return null;
+  const canvas = document.createElement('canvas');
+  canvas.width = 64;
+  canvas.height = 64;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+
+  const grad = ctx.createRadialGradient(32,32,0, 32,32,32);
+  grad.addColorStop(0, "rgba(255,255,255,1)");
+  grad.addColorStop(0.3, "rgba(255,255,255,0.6)");
+  grad.addColorStop(0.5, "rgba(255,255,255,0.2)");
+  grad.addColorStop(1, "rgba(0,0,0,0)");
+
+  ctx.fillStyle = grad;
+  ctx.fillRect(0,0,64,64);
+
+  return new THREE.CanvasTexture(canvas);
+};
+
+/**
+ * Starts loading a body texture, trying `urls` in order. If none loads, or
+ * there are none, the texture takes the canvas `fallback` paints instead.
+ * Null outside a browser.
+ */
+export const loadTexture = (urls: string[], fallback: () => HTMLCanvasElement | null): THREE.Texture | null => {
+  if (typeof document === 'undefined') return null;
+  const texture = new THREE.Texture();
+  const loader = new THREE.ImageLoader();
+  const show = (image: HTMLImageElement | HTMLCanvasElement | null) => {
+    if (!image) return;
+    texture.image = image;
+    texture.needsUpdate = true;
+  };
+  const attempt = (i: number) => {
+    if (i === urls.length) show(fallback());
+    else loader.load(urls[i], show, undefined, () => attempt(i + 1));
+  };
+  attempt(0);
+  return texture;
+};
+
+const RING_TEXELS = 1024;
+
+/**
+ * Bakes a ring system's radial profile into a one-texel-high strip running
+ * from the inner to the outer edge. Ringlets narrower than a texel still get
+ * one, so Uranus's thin rings don't vanish.
+ */
+export const createRingTexture = (rings: RingsFeature): THREE.DataTexture => {
+  const data = new Uint8Array(RING_TEXELS * 4);
+  const span = rings.outerRadius - rings.innerRadius;
+  const bands = rings.bands ?? [{ from: rings.innerRadius, to: rings.outerRadius, opacity: 1 }];
+  const color = new THREE.Color();
+
+  bands.forEach(band => {
+    color.set(band.color ?? rings.color);
+    const first = Math.floor(((band.from - rings.innerRadius) / span) * RING_TEXELS);
+    const last = Math.max(first, Math.ceil(((band.to - rings.innerRadius) / span) * RING_TEXELS) - 1);
+    for (let i = Math.max(first, 0); i <= Math.min(last, RING_TEXELS - 1); i++) {
+      data.set([color.r * 255, color.g * 255, color.b * 255, band.opacity * rings.opacity * 255], i * 4);
+    }
+  });
+
+  const texture = new THREE.DataTexture(data, RING_TEXELS, 1, THREE.RGBAFormat);
+  texture.magFilter = THREE.LinearFilter;
+  texture.minFilter = THREE.LinearFilter;
+  texture.needsUpdate = true;
+  return texture;
+};
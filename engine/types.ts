@@ -0,0 +1,27 @@
+import * as THREE from 'three';
+import { PlanetData } from '../types';
+import { ScaleBlend } from '../utils/scale';
+
+/** Shared resources handed to every layer when it is built. */
+export interface LayerContext {
+  scene: THREE.Scene;
+  bodies: PlanetData[];
+  particleTexture: THREE.Texture | null; // Null where no canvas is available
+}
+
+/** Per-frame inputs. Decorative motion uses real seconds; bodies use simulated days. */
+export interface FrameState {
+  delta: number; // Real seconds since the previous frame
+  elapsed: number; // Real seconds since the engine started
+  simDelta: number; // Simulated days since the previous frame (negative when reversed)
+  simDays: number; // Simulated days since J2000
+  blend: ScaleBlend;
+  scaleChanged: boolean; // The scale blend moved, so scale-dependent layouts are stale
+  reducedMotion: boolean; // The viewer prefers reduced motion: no twinkling or pulsing
+}
+
+export interface SceneLayer {
+  init(context: LayerContext): void;
+  update(frame: FrameState): void;
+  dispose(): void;
+}
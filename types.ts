@@ -1,18 +1,148 @@
+// Rates of change per Julian century (AU or degrees)
+export interface OrbitalElementRates {
+  semiMajorAxis: number;
+  eccentricity: number;
+  inclination: number;
+  longitudeOfAscendingNode: number;
+  argumentOfPerihelion: number;
+  meanAnomaly: number;
+}
+
+export interface OrbitalElements {
+  semiMajorAxis: number; // AU; negative for hyperbolic orbits
+  eccentricity: number;
+  inclination: number; // degrees, relative to the ecliptic
+  longitudeOfAscendingNode: number; // degrees
+  argumentOfPerihelion: number; // degrees
+  meanAnomalyAtEpoch: number; // degrees, at J2000.0
+  rates?: OrbitalElementRates; // Secular drift; without it, mean motion follows Kepler's third law
+}
+
+export type BodyKind = 'star' | 'planet' | 'dwarf' | 'moon' | 'comet';
+
+// Optional visual features, declared per body in the catalog
+export interface EmissiveFeature {
+  type: 'emissive';
+  color: string; // Emissive colour
+  tint?: string; // Base material colour under the texture
+  intensity: number;
+}
+
+// One ringlet or ring in a radial profile; gaps are the space between bands
+export interface RingBand {
+  from: number; // Multiples of the body radius
+  to: number;
+  opacity: number;
+  color?: string; // Defaults to the ring system's colour
+}
+
+// Rings lie in the body's equatorial plane, so they share its axial tilt
+export interface RingsFeature {
+  type: 'rings';
+  innerRadius: number; // Multiples of the body radius
+  outerRadius: number;
+  color: string;
+  opacity: number; // Scales every band
+  bands?: RingBand[]; // Radial profile; without one the ring is uniform
+}
+
+export interface AtmosphereFeature {
+  type: 'atmosphere';
+  color: string;
+  thickness: number; // Shell radius as a multiple of the body radius
+  opacity: number;
+}
+
+export interface AuroraFeature {
+  type: 'aurora';
+}
+
+// Comet tails: an ion tail straight away from the Sun and a dust tail lagging along the orbit
+export interface TailFeature {
+  type: 'tail';
+  ionColor: string;
+  dustColor: string;
+  length: number; // AU at 1 AU from the Sun; grows towards perihelion
+}
+
+// City lights on the night side, fading in across the terminator
+export interface NightLightsFeature {
+  type: 'nightLights';
+  color: string;
+  intensity: number;
+}
+
+export type BodyFeature = EmissiveFeature | RingsFeature | AtmosphereFeature | AuroraFeature | TailFeature | NightLightsFeature;
+
+// Plane a satellite's angles are measured from. Most moons keep close to their
+// parent's equator; the Moon's orbit follows the ecliptic instead.
+export type SatelliteReferencePlane = 'equator' | 'ecliptic';
+
+// Orbit around a parent body, centred on the parent
+export interface SatelliteOrbit {
+  semiMajorAxisKm: number;
+  eccentricity: number;
+  inclination: number; // degrees, relative to the reference plane (> 90 is retrograde)
+  longitudeOfAscendingNode: number; // degrees
+  argumentOfPeriapsis: number; // degrees
+  meanAnomalyAtEpoch: number; // degrees, at J2000.0
+  periodDays: number; // Sidereal orbital period
+  referencePlane?: SatelliteReferencePlane; // Defaults to 'equator'
+}
+
+export type SurfaceStyle = 'banded' | 'rocky' | 'icy' | 'terrestrial' | 'granulated';
+
+// Recipe for the texture generated when no image can be loaded
+export interface ProceduralSurface {
+  style: SurfaceStyle;
+  // Palette. Banded: stripe colours in turn. Rocky, icy, granulated: dark to light.
+  // Terrestrial: deep sea, shallow sea, vegetation, desert, ice.
+  colors: string[];
+  craters?: number; // Rocky and icy: how many to scatter
+  bands?: number; // Banded: stripes from pole to pole
+  turbulence?: number; // Banded: how much the stripes swirl, 0–1
+}
+
+// IAU rotation model: the north pole's direction in J2000 equatorial
+// coordinates, and the prime meridian angle W, which turns through 360°
+// every sidereal period. Without one a body spins upright once per day length.
+export interface BodyRotation {
+  periodHours: number; // Sidereal; negative for retrograde spin about the north pole
+  poleRaDeg: number;
+  poleDecDeg: number;
+  meridianDeg: number; // W at J2000.0
+}
+
+// Measured properties in fixed units; utils/units.ts formats them for display.
+// Optional values are unknown or don't apply (the Sun has no year).
+export interface PhysicalDetails {
+  gravity: number; // m/s² at the surface (or cloud tops)
+  dayLengthSeconds?: number; // Rotation period
+  yearLengthDays?: number; // Orbital period around the parent; omitted for unbound orbits
+  meanTemperatureK?: number;
+  albedo?: number; // Geometric albedo; very bright icy bodies can exceed 1
+  axialTiltDeg?: number; // Obliquity to the orbital plane; > 90 rotates retrograde
+}
+
 export interface PlanetData {
   id: string;
   name: string;
+  kind: BodyKind;
   color: string;
   radius: number; // Relative size
-  distance: number; // Distance from sun
-  speed: number; // Orbital speed
+  radiusKm: number; // Mean radius
+  massKg: number;
+  moonCount?: number; // Known natural satellites, most of which aren't in the catalog
+  distance: number; // Semi-major axis in scene units
+  orbit?: OrbitalElements; // Heliocentric; omitted for the Sun and for satellites
+  parent?: string; // Id of the body a satellite orbits
+  satelliteOrbit?: SatelliteOrbit;
+  rotation?: BodyRotation; // Moons omit it: they stay tidally locked to their parent
   description: string;
-  textureUrl?: string;
-  details: {
-    gravity: number; // m/s²
-    dayLength: string;
-    yearLength: string;
-    temp: string;
-  };
+  textureUrls?: string[]; // Image sources in priority order: bundled first, then remote
+  surface?: ProceduralSurface;
+  details: PhysicalDetails;
+  features?: BodyFeature[];
 }
 
 export interface Vector3 {
@@ -20,3 +150,9 @@ export interface Vector3 {
   y: number;
   z: number;
 }
+
+// Scene-space camera placement, as shared in deep links
+export interface CameraView {
+  position: Vector3;
+  target: Vector3;
+}
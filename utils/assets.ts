@@ -0,0 +1,23 @@
+// Texture files shipped with the app. Listed files are served from the
+// manifest's base path (public/textures by default) and tried before the
+// remote copy, so a build with its textures bundled works offline.
+
+export interface TextureManifest {
+  version: 1;
+  base: string; // URL path the bundled files are served from
+  files: string[]; // File names as they appear in the catalog's `texture` field
+}
+
+/**
+ * Resolves a catalog texture file name to the URLs to try, in order: the
+ * bundled copy if the manifest lists one, then `remoteBase`.
+ */
+export const textureSources = (manifest: TextureManifest, remoteBase: string) => {
+  if (manifest.version !== 1) throw new Error(`Unsupported texture manifest version ${manifest.version}`);
+  const bundled = new Set(manifest.files);
+  const base = manifest.base.replace(/\/+$/, '');
+  return (file: string): string[] => {
+    const remote = `${remoteBase}/${file}`;
+    return bundled.has(file) ? [`${base}/${file}`, remote] : [remote];
+  };
+};
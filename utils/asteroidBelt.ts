@@ -0,0 +1,109 @@
+import { OrbitalElements } from '../types';
+
+// Synthetic main-belt and Trojan asteroids as orbital elements. Semi-major
+// axes avoid the Kirkwood gaps, where mean-motion resonances with Jupiter
+// have cleared the belt.
+
+type Random = () => number;
+
+// Main belt extent in AU
+const MAIN_BELT_AU: [number, number] = [2.1, 3.3];
+// Used for the gaps when no Jupiter is given
+const JUPITER_AU = 5.2029;
+const TROJAN_SHARE = 0.15;
+// L4 leads Jupiter and holds more of the swarm than L5
+const L4_SHARE = 0.6;
+
+// Asteroid:Jupiter period ratios and the half-width of each gap in AU
+const RESONANCES: { ratio: number; halfWidth: number }[] = [
+  { ratio: 4, halfWidth: 0.03 },
+  { ratio: 3, halfWidth: 0.035 },
+  { ratio: 5 / 2, halfWidth: 0.02 },
+  { ratio: 7 / 3, halfWidth: 0.012 },
+  { ratio: 2, halfWidth: 0.05 },
+];
+
+const uniform = (random: Random, min: number, max: number) => min + random() * (max - min);
+
+// Box–Muller; absolute value for the half-normal inclination distributions
+const gaussian = (random: Random, sigma: number) =>
+  sigma * Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+
+const smoothstep = (edge0: number, edge1: number, x: number) => {
+  const t = Math.min(Math.max((x - edge0) / (edge1 - edge0), 0), 1);
+  return t * t * (3 - 2 * t);
+};
+
+/** Semi-major axis of the orbit whose period is `ratio` times shorter than Jupiter's (Kepler's third law). */
+export const resonanceAu = (ratio: number, jupiterAu = JUPITER_AU): number =>
+  jupiterAu * Math.pow(1 / ratio, 2 / 3);
+
+/**
+ * Relative density of the main belt at `au`: thinning towards both edges,
+ * and empty at the centre of each Kirkwood gap.
+ */
+export const mainBeltDensity = (au: number, jupiterAu = JUPITER_AU): number => {
+  const [inner, outer] = MAIN_BELT_AU;
+  if (au < inner || au > outer) return 0;
+  const profile = smoothstep(inner, inner + 0.25, au) * (1 - 0.6 * smoothstep(3.0, outer, au));
+  return RESONANCES.reduce((density, { ratio, halfWidth }) => {
+    const offset = Math.abs(au - resonanceAu(ratio, jupiterAu)) / halfWidth;
+    return density * Math.min(offset * offset, 1);
+  }, profile);
+};
+
+const sampleMainBelt = (random: Random, jupiterAu: number): OrbitalElements => {
+  // Rejection sampling against the density profile
+  let semiMajorAxis = 0;
+  do semiMajorAxis = uniform(random, MAIN_BELT_AU[0], MAIN_BELT_AU[1]);
+  while (random() > mainBeltDensity(semiMajorAxis, jupiterAu));
+  return {
+    semiMajorAxis,
+    eccentricity: Math.min(Math.abs(gaussian(random, 0.08)), 0.3),
+    inclination: Math.abs(gaussian(random, 8)),
+    longitudeOfAscendingNode: random() * 360,
+    argumentOfPerihelion: random() * 360,
+    meanAnomalyAtEpoch: random() * 360,
+  };
+};
+
+/**
+ * A Trojan sharing Jupiter's orbit and mean motion, 60° ahead (L4) or behind
+ * (L5) it. Ignores libration, so the swarms hold their shape.
+ */
+const sampleTrojan = (random: Random, jupiter: OrbitalElements): OrbitalElements => {
+  const jupiterLongitude = jupiter.longitudeOfAscendingNode + jupiter.argumentOfPerihelion + jupiter.meanAnomalyAtEpoch;
+  const longitude = jupiterLongitude + (random() < L4_SHARE ? 60 : -60) + gaussian(random, 12);
+  const longitudeOfAscendingNode = random() * 360;
+  const argumentOfPerihelion = random() * 360;
+  return {
+    semiMajorAxis: jupiter.semiMajorAxis,
+    eccentricity: uniform(random, 0, 0.12),
+    inclination: Math.abs(gaussian(random, 12)),
+    longitudeOfAscendingNode,
+    argumentOfPerihelion,
+    meanAnomalyAtEpoch: longitude - longitudeOfAscendingNode - argumentOfPerihelion,
+    // Keep pace with Jupiter's observed mean motion rather than Kepler's law for its mean distance
+    rates: jupiter.rates && {
+      semiMajorAxis: 0,
+      eccentricity: 0,
+      inclination: 0,
+      longitudeOfAscendingNode: 0,
+      argumentOfPerihelion: 0,
+      meanAnomaly: jupiter.rates.meanAnomaly,
+    },
+  };
+};
+
+/**
+ * Orbital elements for `count` asteroids: the main belt, plus Jupiter's
+ * Trojans when Jupiter's orbit is given.
+ */
+export const sampleAsteroidBelt = (count: number, jupiter?: OrbitalElements, random: Random = Math.random): OrbitalElements[] => {
+  const trojans = jupiter ? Math.round(count * TROJAN_SHARE) : 0;
+  const jupiterAu = jupiter?.semiMajorAxis ?? JUPITER_AU;
+  return [
+    ...Array.from({ length: count - trojans }, () => sampleMainBelt(random, jupiterAu)),
+    ...Array.from({ length: trojans }, () => sampleTrojan(random, jupiter!)),
+  ];
+};
@@ -0,0 +1,299 @@
+import { BodyFeature, BodyKind, PlanetData, SatelliteReferencePlane, SurfaceStyle } from '../types';
+
+// Runtime validation for the JSON body catalog. Every problem is collected
+// with its path, so a broken catalog reports all of its errors at once.
+
+export class CatalogValidationError extends Error {
+  readonly issues: string[];
+
+  constructor(issues: string[]) {
+    super(`Invalid body catalog (${issues.length} issue${issues.length === 1 ? '' : 's'}):\n${issues.map(i => `  - ${i}`).join('\n')}`);
+    this.name = 'CatalogValidationError';
+    this.issues = issues;
+  }
+}
+
+type JsonObject = Record<string, unknown>;
+
+const BODY_KINDS: BodyKind[] = ['star', 'planet', 'dwarf', 'moon', 'comet'];
+const FEATURE_TYPES: BodyFeature['type'][] = ['emissive', 'rings', 'atmosphere', 'aurora', 'tail', 'nightLights'];
+const SURFACE_STYLES: SurfaceStyle[] = ['banded', 'rocky', 'icy', 'terrestrial', 'granulated'];
+const REFERENCE_PLANES: SatelliteReferencePlane[] = ['equator', 'ecliptic'];
+const ORBIT_FIELDS = ['semiMajorAxis', 'eccentricity', 'inclination', 'longitudeOfAscendingNode', 'argumentOfPerihelion'] as const;
+const COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/;
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const describe = (value: unknown): string =>
+  value === undefined ? 'nothing' : JSON.stringify(value);
+
+export class Validator {
+  readonly issues: string[] = [];
+
+  fail(path: string, message: string) {
+    this.issues.push(`${path}: ${message}`);
+  }
+
+  object(value: unknown, path: string): JsonObject | undefined {
+    if (isObject(value)) return value;
+    this.fail(path, `expected an object, got ${describe(value)}`);
+    return undefined;
+  }
+
+  array(value: unknown, path: string): unknown[] | undefined {
+    if (Array.isArray(value)) return value;
+    this.fail(path, `expected an array, got ${describe(value)}`);
+    return undefined;
+  }
+
+  string(obj: JsonObject, key: string, path: string, opts: { optional?: boolean; pattern?: RegExp; hint?: string } = {}): string | undefined {
+    const value = obj[key];
+    if (value === undefined && opts.optional) return undefined;
+    if (typeof value !== 'string' || value.length === 0) {
+      this.fail(`${path}.${key}`, `expected a non-empty string, got ${describe(value)}`);
+      return undefined;
+    }
+    if (opts.pattern && !opts.pattern.test(value)) {
+      this.fail(`${path}.${key}`, `expected ${opts.hint ?? `to match ${opts.pattern}`}, got ${describe(value)}`);
+    }
+    return value;
+  }
+
+  color(obj: JsonObject, key: string, path: string, optional = false): string | undefined {
+    return this.string(obj, key, path, { optional, pattern: COLOR_PATTERN, hint: 'a hex colour like "#3b82f6"' });
+  }
+
+  number(obj: JsonObject, key: string, path: string, opts: { optional?: boolean; min?: number; max?: number; exclusiveMin?: boolean } = {}): number | undefined {
+    const value = obj[key];
+    if (value === undefined && opts.optional) return undefined;
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      this.fail(`${path}.${key}`, `expected a number, got ${describe(value)}`);
+      return undefined;
+    }
+    if (opts.min !== undefined && (opts.exclusiveMin ? value <= opts.min : value < opts.min)) {
+      this.fail(`${path}.${key}`, `expected a number ${opts.exclusiveMin ? '>' : '≥'} ${opts.min}, got ${value}`);
+    }
+    if (opts.max !== undefined && value > opts.max) {
+      this.fail(`${path}.${key}`, `expected a number ≤ ${opts.max}, got ${value}`);
+    }
+    return value;
+  }
+
+  oneOf<T extends string>(obj: JsonObject, key: string, path: string, allowed: readonly T[]): T | undefined {
+    const value = obj[key];
+    if (typeof value !== 'string' || !allowed.includes(value as T)) {
+      this.fail(`${path}.${key}`, `expected one of ${allowed.map(a => `"${a}"`).join(', ')}, got ${describe(value)}`);
+      return undefined;
+    }
+    return value as T;
+  }
+}
+
+const validateOrbit = (v: Validator, value: unknown, path: string): void => {
+  const orbit = v.object(value, path);
+  if (!orbit) return;
+  const a = v.number(orbit, 'semiMajorAxis', path);
+  const e = v.number(orbit, 'eccentricity', path, { min: 0 });
+  if (a !== undefined && e !== undefined) {
+    // Parabolic orbits (e = 1) have no finite semi-major axis and are not supported
+    if (Math.abs(e - 1) < 1e-4) v.fail(`${path}.eccentricity`, `expected an elliptic (< 1) or hyperbolic (> 1) orbit, got ${e}`);
+    else if (e < 1 && a <= 0) v.fail(`${path}.semiMajorAxis`, `expected a number > 0 for an elliptic orbit, got ${a}`);
+    else if (e > 1 && a >= 0) v.fail(`${path}.semiMajorAxis`, `expected a negative number for a hyperbolic orbit, got ${a}`);
+  }
+  v.number(orbit, 'inclination', path, { min: -180, max: 180 });
+  v.number(orbit, 'longitudeOfAscendingNode', path);
+  v.number(orbit, 'argumentOfPerihelion', path);
+  v.number(orbit, 'meanAnomalyAtEpoch', path);
+
+  if (orbit.rates !== undefined) {
+    const rates = v.object(orbit.rates, `${path}.rates`);
+    if (rates) {
+      ORBIT_FIELDS.forEach(field => v.number(rates, field, `${path}.rates`));
+      v.number(rates, 'meanAnomaly', `${path}.rates`);
+    }
+  }
+};
+
+const validateSatelliteOrbit = (v: Validator, value: unknown, path: string): void => {
+  const orbit = v.object(value, path);
+  if (!orbit) return;
+  v.number(orbit, 'semiMajorAxisKm', path, { min: 0, exclusiveMin: true });
+  v.number(orbit, 'eccentricity', path, { min: 0, max: 0.9999 });
+  v.number(orbit, 'inclination', path, { min: 0, max: 180 });
+  v.number(orbit, 'longitudeOfAscendingNode', path);
+  v.number(orbit, 'argumentOfPeriapsis', path);
+  v.number(orbit, 'meanAnomalyAtEpoch', path);
+  v.number(orbit, 'periodDays', path, { min: 0, exclusiveMin: true });
+  if (orbit.referencePlane !== undefined) v.oneOf(orbit, 'referencePlane', path, REFERENCE_PLANES);
+};
+
+const validateRingBand = (v: Validator, value: unknown, path: string, inner?: number, outer?: number): void => {
+  const band = v.object(value, path);
+  if (!band) return;
+  const from = v.number(band, 'from', path, { min: inner });
+  const to = v.number(band, 'to', path, { max: outer });
+  if (from !== undefined && to !== undefined && to <= from) {
+    v.fail(`${path}.to`, `expected a number > from (${from}), got ${to}`);
+  }
+  v.number(band, 'opacity', path, { min: 0, max: 1 });
+  v.color(band, 'color', path, true);
+};
+
+const validateFeature = (v: Validator, value: unknown, path: string): void => {
+  const feature = v.object(value, path);
+  if (!feature) return;
+  const type = v.oneOf(feature, 'type', path, FEATURE_TYPES);
+
+  switch (type) {
+    case 'emissive':
+      v.color(feature, 'color', path);
+      v.color(feature, 'tint', path, true);
+      v.number(feature, 'intensity', path, { min: 0 });
+      break;
+    case 'rings': {
+      const inner = v.number(feature, 'innerRadius', path, { min: 1 });
+      const outer = v.number(feature, 'outerRadius', path, { min: 1 });
+      if (inner !== undefined && outer !== undefined && outer <= inner) {
+        v.fail(`${path}.outerRadius`, `expected a number > innerRadius (${inner}), got ${outer}`);
+      }
+      v.color(feature, 'color', path);
+      v.number(feature, 'opacity', path, { min: 0, max: 1 });
+      if (feature.bands !== undefined) {
+        v.array(feature.bands, `${path}.bands`)?.forEach((band, i) => validateRingBand(v, band, `${path}.bands[${i}]`, inner, outer));
+      }
+      break;
+    }
+    case 'tail':
+      v.color(feature, 'ionColor', path);
+      v.color(feature, 'dustColor', path);
+      v.number(feature, 'length', path, { min: 0, exclusiveMin: true });
+      break;
+    case 'atmosphere':
+      v.color(feature, 'color', path);
+      v.number(feature, 'thickness', path, { min: 1, exclusiveMin: true });
+      v.number(feature, 'opacity', path, { min: 0, max: 1 });
+      break;
+    case 'nightLights':
+      v.color(feature, 'color', path);
+      v.number(feature, 'intensity', path, { min: 0 });
+      break;
+  }
+};
+
+const validateRotation = (v: Validator, value: unknown, path: string): void => {
+  const rotation = v.object(value, path);
+  if (!rotation) return;
+  const period = v.number(rotation, 'periodHours', path);
+  if (period === 0) v.fail(`${path}.periodHours`, 'expected a non-zero number');
+  v.number(rotation, 'poleRaDeg', path, { min: 0, max: 360 });
+  v.number(rotation, 'poleDecDeg', path, { min: -90, max: 90 });
+  v.number(rotation, 'meridianDeg', path);
+};
+
+const validateSurface = (v: Validator, value: unknown, path: string): void => {
+  const surface = v.object(value, path);
+  if (!surface) return;
+  const style = v.oneOf(surface, 'style', path, SURFACE_STYLES);
+  const colors = v.array(surface.colors, `${path}.colors`);
+  colors?.forEach((color, i) => {
+    if (typeof color !== 'string' || !COLOR_PATTERN.test(color)) v.fail(`${path}.colors[${i}]`, `expected a hex colour like "#3b82f6", got ${describe(color)}`);
+  });
+  // Terrestrial palettes are positional: deep sea, shallow sea, vegetation, desert, ice
+  const needed = style === 'terrestrial' ? 5 : 1;
+  if (colors && colors.length < needed) v.fail(`${path}.colors`, `expected at least ${needed} colour${needed === 1 ? '' : 's'}, got ${colors.length}`);
+  v.number(surface, 'craters', path, { optional: true, min: 0 });
+  v.number(surface, 'bands', path, { optional: true, min: 1 });
+  v.number(surface, 'turbulence', path, { optional: true, min: 0, max: 1 });
+};
+
+const validateBody = (v: Validator, value: unknown, path: string): void => {
+  const body = v.object(value, path);
+  if (!body) return;
+
+  v.string(body, 'id', path, { pattern: /^[a-z0-9-]+$/, hint: 'a lowercase id like "mars"' });
+  v.string(body, 'name', path);
+  const kind = v.oneOf(body, 'kind', path, BODY_KINDS);
+  v.color(body, 'color', path);
+  v.number(body, 'radius', path, { min: 0, exclusiveMin: true });
+  v.number(body, 'radiusKm', path, { min: 0, exclusiveMin: true });
+  v.number(body, 'massKg', path, { min: 0, exclusiveMin: true });
+  v.number(body, 'moonCount', path, { optional: true, min: 0 });
+  v.number(body, 'distance', path, { min: 0 });
+  v.string(body, 'description', path);
+  v.string(body, 'texture', path, { optional: true });
+
+  if (kind === 'moon') {
+    v.string(body, 'parent', path);
+    validateSatelliteOrbit(v, body.satelliteOrbit, `${path}.satelliteOrbit`);
+    if (body.orbit !== undefined) v.fail(`${path}.orbit`, 'not allowed on a moon; use satelliteOrbit');
+  } else if (body.orbit !== undefined) {
+    validateOrbit(v, body.orbit, `${path}.orbit`);
+  } else if (kind && kind !== 'star') {
+    v.fail(`${path}.orbit`, `required for a ${kind}`);
+  }
+
+  if (body.rotation !== undefined) {
+    if (kind === 'moon') v.fail(`${path}.rotation`, 'not allowed on a moon; moons are tidally locked');
+    else validateRotation(v, body.rotation, `${path}.rotation`);
+  }
+
+  if (body.surface !== undefined) validateSurface(v, body.surface, `${path}.surface`);
+
+  const details = v.object(body.details, `${path}.details`);
+  if (details) {
+    const at = `${path}.details`;
+    v.number(details, 'gravity', at, { min: 0 });
+    v.number(details, 'dayLengthSeconds', at, { optional: true, min: 0, exclusiveMin: true });
+    v.number(details, 'yearLengthDays', at, { optional: true, min: 0, exclusiveMin: true });
+    v.number(details, 'meanTemperatureK', at, { optional: true, min: 0 });
+    v.number(details, 'albedo', at, { optional: true, min: 0, max: 2 });
+    v.number(details, 'axialTiltDeg', at, { optional: true, min: 0, max: 180 });
+  }
+
+  if (body.features !== undefined) {
+    v.array(body.features, `${path}.features`)?.forEach((feature, i) => validateFeature(v, feature, `${path}.features[${i}]`));
+  }
+};
+
+/**
+ * Validates a parsed catalog document and returns its bodies, with each texture
+ * file name resolved to the URLs to try by `textureSources`. Throws
+ * CatalogValidationError.
+ */
+export const loadCatalog = (document: unknown, textureSources: (file: string) => string[]): PlanetData[] => {
+  const v = new Validator();
+  const root = v.object(document, 'catalog');
+  const bodies = root ? v.array(root.bodies, 'catalog.bodies') : undefined;
+
+  if (root && root.version !== 1) {
+    v.fail('catalog.version', `expected 1, got ${describe(root.version)}`);
+  }
+
+  const ids = new Set<string>();
+  const pathOf = (body: unknown, i: number) =>
+    isObject(body) && typeof body.id === 'string' ? `bodies[${i}] (${body.id})` : `bodies[${i}]`;
+
+  bodies?.forEach((body, i) => {
+    validateBody(v, body, pathOf(body, i));
+    if (isObject(body) && typeof body.id === 'string') {
+      if (ids.has(body.id)) v.fail(pathOf(body, i), `duplicate id "${body.id}"`);
+      ids.add(body.id);
+    }
+  });
+
+  // Parents may appear anywhere in the file, so check references once all ids are known
+  bodies?.forEach((body, i) => {
+    if (isObject(body) && typeof body.parent === 'string') {
+      if (!ids.has(body.parent)) v.fail(`${pathOf(body, i)}.parent`, `unknown body id "${body.parent}"`);
+      else if (body.parent === body.id) v.fail(`${pathOf(body, i)}.parent`, 'a body cannot orbit itself');
+    }
+  });
+
+  if (v.issues.length > 0) throw new CatalogValidationError(v.issues);
+
+  return (bodies as JsonObject[]).map(({ texture, ...body }) => ({
+    ...(body as unknown as Omit<PlanetData, 'textureUrls'>),
+    textureUrls: typeof texture === 'string' ? textureSources(texture) : undefined,
+  }));
+};
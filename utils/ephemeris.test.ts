@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { PLANETS } from '../constants';
+import { daysSinceJ2000, eclipticLongitude, heliocentricPosition } from './ephemeris';
+
+// Reference positions in the J2000 ecliptic frame. At opposition a planet's
+// heliocentric longitude equals Earth's, which is the Sun's apparent longitude
+// (Astronomical Almanac) + 180°, less precession since J2000. Heliocentric
+// distances are Earth's distance from the Sun plus the published Earth–planet
+// distance on the night of opposition.
+interface Fixture {
+  body: string;
+  date: string;
+  longitudeDeg: number;
+  distanceAu: number;
+  longitudeToleranceDeg: number;
+  distanceToleranceAu: number;
+}
+
+const FIXTURES: Fixture[] = [
+  // The epoch itself: perihelion was two days later, at 0.98329 AU
+  { body: 'earth', date: '2000-01-01T12:00:00Z', longitudeDeg: 100.38, distanceAu: 0.9833, longitudeToleranceDeg: 0.05, distanceToleranceAu: 0.001 },
+  // Mars oppositions: 0.419 AU from Earth in 2020, 0.643 AU in 2025
+  { body: 'mars', date: '2020-10-13T23:20:00Z', longitudeDeg: 20.79, distanceAu: 1.4165, longitudeToleranceDeg: 0.2, distanceToleranceAu: 0.01 },
+  { body: 'mars', date: '2025-01-16T02:32:00Z', longitudeDeg: 115.86, distanceAu: 1.6266, longitudeToleranceDeg: 0.2, distanceToleranceAu: 0.01 },
+  // Jupiter's closest opposition since 1963, 3.953 AU from Earth
+  { body: 'jupiter', date: '2022-09-26T20:00:00Z', longitudeDeg: 3.40, distanceAu: 4.9555, longitudeToleranceDeg: 0.2, distanceToleranceAu: 0.02 },
+  // Saturn, 8.757 AU from Earth
+  { body: 'saturn', date: '2023-08-27T08:00:00Z', longitudeDeg: 333.48, distanceAu: 9.7675, longitudeToleranceDeg: 0.2, distanceToleranceAu: 0.03 },
+];
+
+// Difference of two longitudes, wrapped to [-180, 180)
+const angleBetween = (a: number, b: number) => ((a - b + 540) % 360) - 180;
+
+describe('heliocentricPosition', () => {
+  it.each(FIXTURES)('places $body on $date', ({ body, date, longitudeDeg, distanceAu, longitudeToleranceDeg, distanceToleranceAu }) => {
+    const orbit = PLANETS.find(p => p.id === body)!.orbit!;
+    const position = heliocentricPosition(orbit, daysSinceJ2000(new Date(date)));
+
+    expect(Math.abs(angleBetween(eclipticLongitude(position), longitudeDeg))).toBeLessThan(longitudeToleranceDeg);
+    expect(Math.abs(Math.hypot(position.x, position.y, position.z) - distanceAu)).toBeLessThan(distanceToleranceAu);
+  });
+
+  it.each(FIXTURES.filter(f => f.body !== 'earth'))('lines $body up with Earth at opposition on $date', ({ body, date }) => {
+    const days = daysSinceJ2000(new Date(date));
+    const planet = heliocentricPosition(PLANETS.find(p => p.id === body)!.orbit!, days);
+    const earth = heliocentricPosition(PLANETS.find(p => p.id === 'earth')!.orbit!, days);
+
+    expect(Math.abs(angleBetween(eclipticLongitude(planet), eclipticLongitude(earth)))).toBeLessThan(0.2);
+  });
+});
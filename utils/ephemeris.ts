@@ -0,0 +1,51 @@
+import { OrbitalElements, Vector3 } from '../types';
+import { meanAnomalyAt, orbitalPosition } from './kepler';
+
+// Pure TypeScript ephemeris, independent of the renderer. Positions are
+// heliocentric, in AU, in the J2000 ecliptic frame.
+
+const DEG = Math.PI / 180;
+const DAYS_PER_JULIAN_CENTURY = 36525;
+const J2000_JULIAN_DATE = 2451545.0;
+const UNIX_EPOCH_JULIAN_DATE = 2440587.5;
+
+export const julianDate = (date: Date): number =>
+  date.getTime() / 86_400_000 + UNIX_EPOCH_JULIAN_DATE;
+
+export const daysSinceJ2000 = (date: Date): number => julianDate(date) - J2000_JULIAN_DATE;
+
+/**
+ * Mean elements at the given time, with secular rates applied. The returned
+ * `meanAnomalyAtEpoch` holds the mean anomaly at that time, in degrees.
+ */
+export const elementsAt = (elements: OrbitalElements, days: number): OrbitalElements => {
+  const { rates } = elements;
+  if (!rates) {
+    return { ...elements, meanAnomalyAtEpoch: meanAnomalyAt(elements, days) / DEG };
+  }
+
+  const T = days / DAYS_PER_JULIAN_CENTURY;
+  return {
+    semiMajorAxis: elements.semiMajorAxis + rates.semiMajorAxis * T,
+    eccentricity: elements.eccentricity + rates.eccentricity * T,
+    inclination: elements.inclination + rates.inclination * T,
+    longitudeOfAscendingNode: elements.longitudeOfAscendingNode + rates.longitudeOfAscendingNode * T,
+    argumentOfPerihelion: elements.argumentOfPerihelion + rates.argumentOfPerihelion * T,
+    meanAnomalyAtEpoch: elements.meanAnomalyAtEpoch + rates.meanAnomaly * T,
+  };
+};
+
+export const heliocentricPosition = (elements: OrbitalElements, days: number): Vector3 => {
+  const current = elementsAt(elements, days);
+  return orbitalPosition(current, current.meanAnomalyAtEpoch * DEG);
+};
+
+/** Heliocentric ecliptic longitude in degrees, normalised to [0, 360). */
+export const eclipticLongitude = (position: Vector3): number => {
+  const lon = Math.atan2(position.y, position.x) / DEG;
+  return (lon + 360) % 360;
+};
+
+/** Heliocentric ecliptic latitude in degrees. */
+export const eclipticLatitude = (position: Vector3): number =>
+  Math.atan2(position.z, Math.hypot(position.x, position.y)) / DEG;
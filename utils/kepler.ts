@@ -0,0 +1,142 @@
+import { OrbitalElements, SatelliteOrbit, Vector3 } from '../types';
+
+const DEG = Math.PI / 180;
+const TWO_PI = Math.PI * 2;
+
+/**
+ * Solves Kepler's equation M = E - e·sin(E) for the eccentric anomaly E
+ * (radians) using Newton–Raphson iteration.
+ */
+export const solveKepler = (meanAnomaly: number, eccentricity: number, tolerance = 1e-10): number => {
+  const M = ((meanAnomaly % TWO_PI) + TWO_PI) % TWO_PI;
+  // Starting from PI converges for any M, which matters on highly eccentric orbits
+  let E = eccentricity < 0.8 ? M : Math.PI;
+
+  for (let i = 0; i < 50; i++) {
+    const delta = (E - eccentricity * Math.sin(E) - M) / (1 - eccentricity * Math.cos(E));
+    E -= delta;
+    if (Math.abs(delta) < tolerance) break;
+  }
+  return E;
+};
+
+/**
+ * Solves the hyperbolic Kepler equation M = e·sinh(H) - H for the hyperbolic
+ * anomaly H. Unlike the elliptic case, M is not periodic and is not wrapped.
+ */
+export const solveHyperbolicKepler = (meanAnomaly: number, eccentricity: number, tolerance = 1e-10): number => {
+  const M = meanAnomaly;
+  let H = Math.sign(M) * Math.log((2 * Math.abs(M)) / eccentricity + 1.8);
+
+  for (let i = 0; i < 100; i++) {
+    const delta = (eccentricity * Math.sinh(H) - H - M) / (eccentricity * Math.cosh(H) - 1);
+    H -= delta;
+    if (Math.abs(delta) < tolerance) break;
+  }
+  return H;
+};
+
+/**
+ * Rotates a point from the orbital (perifocal) plane into heliocentric
+ * ecliptic coordinates, using the orbit's ω, i and Ω.
+ */
+const perifocalToEcliptic = (xp: number, yp: number, elements: OrbitalElements): Vector3 => {
+  const w = elements.argumentOfPerihelion * DEG;
+  const i = elements.inclination * DEG;
+  const O = elements.longitudeOfAscendingNode * DEG;
+
+  const cosW = Math.cos(w), sinW = Math.sin(w);
+  const cosO = Math.cos(O), sinO = Math.sin(O);
+  const cosI = Math.cos(i), sinI = Math.sin(i);
+
+  return {
+    x: (cosW * cosO - sinW * sinO * cosI) * xp + (-sinW * cosO - cosW * sinO * cosI) * yp,
+    y: (cosW * sinO + sinW * cosO * cosI) * xp + (-sinW * sinO + cosW * cosO * cosI) * yp,
+    z: (sinW * sinI) * xp + (cosW * sinI) * yp,
+  };
+};
+
+/**
+ * Position on the orbit for an eccentric anomaly E (radians), in the same
+ * length unit as the semi-major axis. On hyperbolic orbits (e > 1, a < 0)
+ * E is the hyperbolic anomaly H.
+ */
+export const positionAtEccentricAnomaly = (elements: OrbitalElements, E: number): Vector3 => {
+  const a = Math.abs(elements.semiMajorAxis);
+  const e = elements.eccentricity;
+  if (e > 1) {
+    return perifocalToEcliptic(a * (e - Math.cosh(E)), a * Math.sqrt(e * e - 1) * Math.sinh(E), elements);
+  }
+  const xp = a * (Math.cos(E) - e);
+  const yp = a * Math.sqrt(1 - e * e) * Math.sin(E);
+  return perifocalToEcliptic(xp, yp, elements);
+};
+
+/**
+ * Heliocentric ecliptic position (x towards the vernal equinox, z towards
+ * the ecliptic north pole) for a mean anomaly given in radians.
+ */
+export const orbitalPosition = (elements: OrbitalElements, meanAnomaly: number): Vector3 => {
+  const E = elements.eccentricity > 1
+    ? solveHyperbolicKepler(meanAnomaly, elements.eccentricity)
+    : solveKepler(meanAnomaly, elements.eccentricity);
+  return positionAtEccentricAnomaly(elements, E);
+};
+
+/**
+ * Samples the full orbit ellipse. Points are spaced evenly in eccentric
+ * anomaly, which concentrates them around perihelion where curvature is highest.
+ * Hyperbolic orbits are open, so only the arc within `maxDistance` is sampled.
+ */
+export const orbitPath = (elements: OrbitalElements, segments: number, maxDistance = 100): Vector3[] => {
+  const e = elements.eccentricity;
+  const points: Vector3[] = [];
+  if (e > 1) {
+    // r = |a|(e·cosh H - 1), solved for the H where r reaches maxDistance
+    const hMax = Math.acosh((maxDistance / Math.abs(elements.semiMajorAxis) + 1) / e);
+    for (let i = 0; i <= segments; i++) {
+      points.push(positionAtEccentricAnomaly(elements, -hMax + (2 * hMax * i) / segments));
+    }
+    return points;
+  }
+  for (let i = 0; i <= segments; i++) {
+    points.push(positionAtEccentricAnomaly(elements, (i / segments) * TWO_PI));
+  }
+  return points;
+};
+
+/**
+ * Sidereal period in days from Kepler's third law (AU, solar-mass primary).
+ * For hyperbolic orbits this is 2π over the mean motion, not a true period.
+ */
+export const orbitalPeriodDays = (elements: OrbitalElements): number =>
+  365.25 * Math.pow(Math.abs(elements.semiMajorAxis), 1.5);
+
+/** Perihelion distance in AU; valid for elliptic and hyperbolic orbits. */
+export const perihelionDistance = (elements: OrbitalElements): number =>
+  elements.semiMajorAxis * (1 - elements.eccentricity);
+
+/** Mean anomaly in radians at a time given in days since J2000.0. */
+export const meanAnomalyAt = (elements: OrbitalElements, daysSinceJ2000: number): number =>
+  elements.meanAnomalyAtEpoch * DEG + (TWO_PI * daysSinceJ2000) / orbitalPeriodDays(elements);
+
+// Satellite orbits reuse the heliocentric machinery with km as the length unit
+const satelliteElements = (orbit: SatelliteOrbit): OrbitalElements => ({
+  semiMajorAxis: orbit.semiMajorAxisKm,
+  eccentricity: orbit.eccentricity,
+  inclination: orbit.inclination,
+  longitudeOfAscendingNode: orbit.longitudeOfAscendingNode,
+  argumentOfPerihelion: orbit.argumentOfPeriapsis,
+  meanAnomalyAtEpoch: orbit.meanAnomalyAtEpoch,
+});
+
+/** Mean anomaly in radians; satellites carry their period, since orbitalPeriodDays assumes the Sun. */
+export const satelliteMeanAnomaly = (orbit: SatelliteOrbit, daysSinceJ2000: number): number =>
+  orbit.meanAnomalyAtEpoch * DEG + (TWO_PI * daysSinceJ2000) / orbit.periodDays;
+
+/** Parent-centred position in km, with z along the normal of the orbit's reference plane. */
+export const satellitePosition = (orbit: SatelliteOrbit, daysSinceJ2000: number): Vector3 =>
+  orbitalPosition(satelliteElements(orbit), satelliteMeanAnomaly(orbit, daysSinceJ2000));
+
+export const satelliteOrbitPath = (orbit: SatelliteOrbit, segments: number): Vector3[] =>
+  orbitPath(satelliteElements(orbit), segments);
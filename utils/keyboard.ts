@@ -0,0 +1,9 @@
+/** True when keystrokes belong to a form field rather than to the app's shortcuts. */
+export const isEditableTarget = (target: EventTarget | null): boolean => {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ['INPUT', 'SELECT', 'TEXTAREA'].includes(target.tagName);
+};
+
+/** True for elements where Enter and Space already mean "activate". */
+export const isInteractiveTarget = (target: EventTarget | null): boolean =>
+  isEditableTarget(target) || (target instanceof HTMLElement && ['BUTTON', 'A'].includes(target.tagName));
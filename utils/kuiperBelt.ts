@@ -0,0 +1,86 @@
+import { OrbitalElements } from '../types';
+
+// Synthetic trans-Neptunian population following the belt's observed
+// dynamical classes, rather than a uniform annulus.
+
+type Random = () => number;
+
+interface Population {
+  share: number; // Fraction of the sample
+  sample: (random: Random) => Omit<OrbitalElements, 'longitudeOfAscendingNode' | 'argumentOfPerihelion' | 'meanAnomalyAtEpoch'>;
+}
+
+const uniform = (random: Random, min: number, max: number) => min + random() * (max - min);
+
+// Box–Muller; absolute value for the half-normal inclination distributions
+const gaussian = (random: Random, sigma: number) =>
+  sigma * Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+
+const POPULATIONS: Population[] = [
+  {
+    // Cold classicals: nearly circular, nearly flat, confined to 42–47 AU
+    share: 0.35,
+    sample: (random) => ({
+      semiMajorAxis: uniform(random, 42.5, 47),
+      eccentricity: uniform(random, 0, 0.08),
+      inclination: Math.abs(gaussian(random, 2)),
+    }),
+  },
+  {
+    // Hot classicals: same region, dynamically excited
+    share: 0.25,
+    sample: (random) => ({
+      semiMajorAxis: uniform(random, 40, 47.5),
+      eccentricity: uniform(random, 0.02, 0.2),
+      inclination: Math.abs(gaussian(random, 12)),
+    }),
+  },
+  {
+    // Plutinos in the 3:2 resonance with Neptune, like Pluto itself
+    share: 0.2,
+    sample: (random) => ({
+      semiMajorAxis: 39.4 + gaussian(random, 0.2),
+      eccentricity: uniform(random, 0.1, 0.3),
+      inclination: Math.abs(gaussian(random, 10)),
+    }),
+  },
+  {
+    // Twotinos in the 2:1 resonance
+    share: 0.05,
+    sample: (random) => ({
+      semiMajorAxis: 47.8 + gaussian(random, 0.2),
+      eccentricity: uniform(random, 0.1, 0.35),
+      inclination: Math.abs(gaussian(random, 8)),
+    }),
+  },
+  {
+    // Scattered disc: perihelia near Neptune, far-flung aphelia
+    share: 0.15,
+    sample: (random) => {
+      const semiMajorAxis = uniform(random, 50, 100);
+      const perihelion = uniform(random, 33, 40);
+      return {
+        semiMajorAxis,
+        eccentricity: 1 - perihelion / semiMajorAxis,
+        inclination: Math.abs(gaussian(random, 15)),
+      };
+    },
+  },
+];
+
+/** Orbital elements for `count` Kuiper belt objects, at random points on their orbits. */
+export const sampleKuiperBelt = (count: number, random: Random = Math.random): OrbitalElements[] => {
+  const orbits: OrbitalElements[] = [];
+  POPULATIONS.forEach((population) => {
+    const n = Math.round(count * population.share);
+    for (let i = 0; i < n; i++) {
+      orbits.push({
+        ...population.sample(random),
+        longitudeOfAscendingNode: random() * 360,
+        argumentOfPerihelion: random() * 360,
+        meanAnomalyAtEpoch: random() * 360,
+      });
+    }
+  });
+  return orbits;
+};
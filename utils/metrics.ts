@@ -0,0 +1,81 @@
+import { PlanetData } from '../types';
+import { PLANETS } from '../constants';
+import { ConvertibleKind, UnitSystem, convertQuantity, formatNumber } from './units';
+
+// Physical quantities for comparing bodies, read from the catalog or derived from it.
+
+export type MetricId =
+  | 'radius'
+  | 'mass'
+  | 'density'
+  | 'escapeVelocity'
+  | 'gravity'
+  | 'orbitalPeriod'
+  | 'dayLength'
+  | 'temperature'
+  | 'albedo'
+  | 'axialTilt'
+  | 'moons';
+
+export interface Metric {
+  id: MetricId;
+  label: string;
+  unit: string; // The unit `value` returns; metrics with a `kind` are shown in the viewer's units instead
+  kind?: ConvertibleKind; // What the value measures, for unit conversion
+  value: (body: PlanetData) => number | null; // Null when the quantity doesn't apply or is unknown
+}
+
+const G = 6.674e-11; // m³ kg⁻¹ s⁻²
+
+const volumeM3 = (body: PlanetData) => (4 / 3) * Math.PI * Math.pow(body.radiusKm * 1000, 3);
+
+/** Mean density in kg/m³, from the catalog mass and radius. */
+export const bodyDensity = (body: PlanetData): number => body.massKg / volumeM3(body);
+
+/** Escape velocity at the mean radius, in km/s. */
+export const escapeVelocity = (body: PlanetData): number =>
+  Math.sqrt((2 * G * body.massKg) / (body.radiusKm * 1000)) / 1000;
+
+export const METRICS: Metric[] = [
+  { id: 'radius', label: 'Radius', unit: 'km', kind: 'length', value: b => b.radiusKm },
+  { id: 'mass', label: 'Mass', unit: 'kg', kind: 'mass', value: b => b.massKg },
+  { id: 'density', label: 'Density', unit: 'kg/m³', kind: 'density', value: bodyDensity },
+  { id: 'escapeVelocity', label: 'Escape velocity', unit: 'km/s', kind: 'velocity', value: escapeVelocity },
+  { id: 'gravity', label: 'Surface gravity', unit: 'm/s²', kind: 'acceleration', value: b => b.details.gravity },
+  { id: 'orbitalPeriod', label: 'Orbital period', unit: 'days', value: b => b.details.yearLengthDays ?? null },
+  {
+    id: 'dayLength',
+    label: 'Day length',
+    unit: 'hours',
+    value: b => b.details.dayLengthSeconds === undefined ? null : b.details.dayLengthSeconds / 3600,
+  },
+  { id: 'temperature', label: 'Mean temperature', unit: 'K', kind: 'temperature', value: b => b.details.meanTemperatureK ?? null },
+  { id: 'albedo', label: 'Albedo', unit: '', value: b => b.details.albedo ?? null },
+  { id: 'axialTilt', label: 'Axial tilt', unit: '°', value: b => b.details.axialTiltDeg ?? null },
+  {
+    id: 'moons',
+    label: 'Moons',
+    unit: '',
+    value: b => b.moonCount ?? PLANETS.filter(p => p.parent === b.id).length,
+  },
+];
+
+export const findMetric = (id: MetricId): Metric => METRICS.find(m => m.id === id) ?? METRICS[0];
+
+/** The unit a metric is shown in under `system`. */
+export const metricUnit = (metric: Metric, system: UnitSystem): string =>
+  metric.kind ? convertQuantity(0, metric.kind, system).unit : metric.unit;
+
+/** A body's value for the metric in the unit `metricUnit` gives, e.g. for charting. */
+export const metricValue = (metric: Metric, body: PlanetData, system: UnitSystem): number | null => {
+  const value = metric.value(body);
+  return value === null || !metric.kind ? value : convertQuantity(value, metric.kind, system).value;
+};
+
+/** A body's value for the metric, without its unit, in the viewer's units and locale. */
+export const formatMetricValue = (metric: Metric, body: PlanetData, system: UnitSystem): string => {
+  const value = metricValue(metric, body, system);
+  if (value === null) return '–';
+  // Counts, ratios and angles read as plain numbers in every system
+  return formatNumber(value, metric.unit && metric.unit !== '°' ? system : 'metric');
+};
@@ -0,0 +1,63 @@
+import { PlanetData } from '../types';
+import { PLANETS } from '../constants';
+
+// "What would I weigh on Mars?": a reader's own numbers carried to other worlds.
+
+export interface PersonalInput {
+  massKg: number | null; // What the reader's scale says on Earth
+  birthday: Date | null;
+  ageYears: number | null; // Used when no birthday is given
+}
+
+export interface PersonalStats {
+  body: PlanetData;
+  weightKg: number | null; // What the same scale would read there
+  localAge: number | null; // In the body's own years
+  nextBirthday: { date: Date; age: number } | null;
+  jumpHeightM: number; // Infinity when the jump reaches escape velocity
+}
+
+const DAY_MS = 86400000;
+const EARTH_YEAR_DAYS = 365.25;
+const EARTH_JUMP_M = 0.5; // A typical standing vertical jump
+
+const EARTH = PLANETS.find(p => p.id === 'earth')!;
+
+/** Length of a year on `body` in days. Moons share their planet's trip around the Sun. */
+export const localYearDays = (body: PlanetData): number | undefined => {
+  const parent = body.parent ? PLANETS.find(p => p.id === body.parent) : undefined;
+  return (parent ?? body).details.yearLengthDays;
+};
+
+/**
+ * Height reached with the take-off speed of an Earth jump. Weak gravity falls
+ * off noticeably with height on small bodies, so this uses energy
+ * conservation rather than a uniform field.
+ */
+export const jumpHeight = (body: PlanetData, earthJumpM = EARTH_JUMP_M): number => {
+  const speedSquared = 2 * EARTH.details.gravity * earthJumpM;
+  const radiusM = body.radiusKm * 1000;
+  const mu = body.details.gravity * radiusM * radiusM; // GM, consistent with the catalog's surface gravity
+  const bound = 1 / radiusM - speedSquared / (2 * mu);
+  return bound > 0 ? 1 / bound - radiusM : Infinity;
+};
+
+export const personalStats = (body: PlanetData, input: PersonalInput, now: Date): PersonalStats => {
+  const weightKg = input.massKg === null ? null : input.massKg * body.details.gravity / EARTH.details.gravity;
+
+  // A bare age is treated as a birthday that many Earth years ago
+  const birthMs = input.birthday
+    ? input.birthday.getTime()
+    : input.ageYears !== null ? now.getTime() - input.ageYears * EARTH_YEAR_DAYS * DAY_MS : null;
+  const yearDays = localYearDays(body);
+
+  let localAge: number | null = null;
+  let nextBirthday: PersonalStats['nextBirthday'] = null;
+  if (birthMs !== null && yearDays !== undefined && birthMs <= now.getTime()) {
+    localAge = (now.getTime() - birthMs) / DAY_MS / yearDays;
+    const age = Math.floor(localAge) + 1;
+    nextBirthday = { date: new Date(birthMs + age * yearDays * DAY_MS), age };
+  }
+
+  return { body, weightKg, localAge, nextBirthday, jumpHeightM: jumpHeight(body) };
+};
@@ -0,0 +1,75 @@
+import { PlanetData } from '../types';
+import { PLANETS } from '../constants';
+import { KM_PER_AU } from './scale';
+
+// Data behind the orbital-relations plots: Kepler's third law, orbital speed
+// and equilibrium temperature against distance.
+
+export interface OrbitPoint {
+  body: PlanetData;
+  system: string; // Id of the central body: "sun", or a planet for its moons
+  semiMajorAxisAu: number;
+  periodDays: number;
+}
+
+/**
+ * Every bound orbit in the catalog with its catalog period, so the law is
+ * tested against tabulated periods rather than ones derived from it.
+ */
+export const orbitPoints = (bodies: PlanetData[] = PLANETS): OrbitPoint[] =>
+  bodies.flatMap((body): OrbitPoint[] => {
+    if (body.satelliteOrbit && body.parent) {
+      return [{
+        body,
+        system: body.parent,
+        semiMajorAxisAu: body.satelliteOrbit.semiMajorAxisKm / KM_PER_AU,
+        periodDays: body.satelliteOrbit.periodDays,
+      }];
+    }
+    const period = body.details.yearLengthDays;
+    if (!body.orbit || body.orbit.eccentricity >= 1 || period === undefined) return [];
+    return [{ body, system: 'sun', semiMajorAxisAu: body.orbit.semiMajorAxis, periodDays: period }];
+  });
+
+export interface PowerLaw {
+  exponent: number;
+  coefficient: number; // y = coefficient · x^exponent
+}
+
+/**
+ * Least-squares fit of y = c·x^k in log space. With `exponent` given only the
+ * coefficient is fitted, which works from a single point (a lone moon).
+ */
+export const fitPowerLaw = (points: { x: number; y: number }[], exponent?: number): PowerLaw => {
+  const logs = points.map(p => ({ x: Math.log10(p.x), y: Math.log10(p.y) }));
+  const n = logs.length;
+  const meanX = logs.reduce((sum, p) => sum + p.x, 0) / n;
+  const meanY = logs.reduce((sum, p) => sum + p.y, 0) / n;
+  let k = exponent;
+  if (k === undefined) {
+    const sxx = logs.reduce((sum, p) => sum + (p.x - meanX) ** 2, 0);
+    const sxy = logs.reduce((sum, p) => sum + (p.x - meanX) * (p.y - meanY), 0);
+    k = sxx > 0 ? sxy / sxx : 1.5;
+  }
+  return { exponent: k, coefficient: Math.pow(10, meanY - k * meanX) };
+};
+
+/** Mean orbital speed in km/s: circumference over period (ignoring eccentricity). */
+export const meanOrbitalSpeed = ({ semiMajorAxisAu, periodDays }: OrbitPoint): number =>
+  (2 * Math.PI * semiMajorAxisAu * KM_PER_AU) / (periodDays * 86400);
+
+const EARTH_CIRCULAR_SPEED = 29.78; // km/s at 1 AU
+
+/** Speed of a circular orbit around the Sun at `distanceAu`, in km/s. */
+export const circularSpeed = (distanceAu: number): number => EARTH_CIRCULAR_SPEED / Math.sqrt(distanceAu);
+
+// A fast-rotating black body at 1 AU with no albedo
+const EQUILIBRIUM_AT_1_AU = 278.6;
+
+/**
+ * Black-body equilibrium temperature in kelvin at `distanceAu` from the Sun,
+ * with heat spread over the whole surface. Geometric albedo stands in for the
+ * Bond albedo, which the catalog doesn't carry.
+ */
+export const equilibriumTemperature = (distanceAu: number, albedo = 0): number =>
+  EQUILIBRIUM_AT_1_AU * Math.pow(1 - Math.min(albedo, 0.99), 0.25) / Math.sqrt(distanceAu);
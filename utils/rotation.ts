@@ -0,0 +1,33 @@
+import { BodyRotation, Vector3 } from '../types';
+
+// Body orientation from the IAU rotation model, in the J2000 ecliptic frame
+// used by the ephemeris.
+
+const DEG = Math.PI / 180;
+const OBLIQUITY = 23.4392911 * DEG; // Earth's axial tilt at J2000: equator to ecliptic
+
+const equatorialToEcliptic = ({ x, y, z }: Vector3): Vector3 => ({
+  x,
+  y: y * Math.cos(OBLIQUITY) + z * Math.sin(OBLIQUITY),
+  z: -y * Math.sin(OBLIQUITY) + z * Math.cos(OBLIQUITY),
+});
+
+/**
+ * The body's north pole, and the direction of its prime meridian when W = 0:
+ * the ascending node of the body's equator on Earth's. Both are unit vectors.
+ */
+export const rotationAxes = ({ poleRaDeg, poleDecDeg }: BodyRotation): { pole: Vector3; node: Vector3 } => {
+  const ra = poleRaDeg * DEG;
+  const dec = poleDecDeg * DEG;
+  return {
+    pole: equatorialToEcliptic({ x: Math.cos(dec) * Math.cos(ra), y: Math.cos(dec) * Math.sin(ra), z: Math.sin(dec) }),
+    node: equatorialToEcliptic({ x: -Math.sin(ra), y: Math.cos(ra), z: 0 }),
+  };
+};
+
+/** Prime meridian angle W in degrees, in [0, 360), measured east from the node. */
+export const meridianAngle = (rotation: BodyRotation, daysSinceJ2000: number): number => {
+  const turns = (daysSinceJ2000 * 24) / rotation.periodHours;
+  const w = rotation.meridianDeg + (turns - Math.floor(turns)) * 360;
+  return ((w % 360) + 360) % 360;
+};
@@ -0,0 +1,78 @@
+import { PLANETS } from '../constants';
+import { PlanetData } from '../types';
+
+export type ScaleMode = 'artistic' | 'logarithmic' | 'true';
+
+export const SCALE_MODES: { id: ScaleMode; label: string; description: string }[] = [
+  { id: 'artistic', label: 'Artistic', description: 'Hand-tuned sizes and spacing for readability' },
+  { id: 'logarithmic', label: 'Log', description: 'Distances compressed logarithmically' },
+  { id: 'true', label: 'True', description: 'Sizes and distances in true proportion' },
+];
+
+export const KM_PER_AU = 149_597_870.7;
+// True-scale scene units per AU; sizes use the same factor, so planets become tiny
+const TRUE_UNITS_PER_AU = 8;
+// Logarithmic mode: d = LOG_SCALE * ln(1 + au / LOG_KNEE)
+const LOG_SCALE = 25;
+const LOG_KNEE = 0.25;
+// Extent of the ecliptic grid, out past the Kuiper belt
+export const GRID_EXTENT_AU = 50;
+
+export interface ScaleBlend {
+  from: ScaleMode;
+  to: ScaleMode;
+  progress: number; // 0 = from, 1 = to
+}
+
+// Artistic distances interpolate between the hand-tuned planet distances,
+// so anything between two planets (belts, comets) lands between them too
+const ARTISTIC_STOPS: [number, number][] = [
+  [0, 0],
+  ...PLANETS
+    .filter(p => p.kind === 'planet' && p.orbit)
+    .map(p => [p.orbit!.semiMajorAxis, p.distance] as [number, number])
+    .sort((a, b) => a[0] - b[0]),
+];
+
+const artisticDistance = (au: number): number => {
+  for (let i = 1; i < ARTISTIC_STOPS.length; i++) {
+    const [a1, d1] = ARTISTIC_STOPS[i];
+    if (au <= a1 || i === ARTISTIC_STOPS.length - 1) {
+      // Beyond the last stop, extrapolate along the final segment
+      const [a0, d0] = ARTISTIC_STOPS[i - 1];
+      return d0 + ((au - a0) / (a1 - a0)) * (d1 - d0);
+    }
+  }
+  return au;
+};
+
+export const sceneDistance = (au: number, mode: ScaleMode): number => {
+  switch (mode) {
+    case 'true':
+      return au * TRUE_UNITS_PER_AU;
+    case 'logarithmic':
+      return LOG_SCALE * Math.log(1 + au / LOG_KNEE);
+    default:
+      return artisticDistance(au);
+  }
+};
+
+export const sceneRadius = (body: PlanetData, mode: ScaleMode): number =>
+  mode === 'true' ? (body.radiusKm / KM_PER_AU) * TRUE_UNITS_PER_AU : body.radius;
+
+/**
+ * Distance from a parent body in scene units. Outside true scale it grows with
+ * the log of the distance in parent radii, so close moons clear the surface.
+ */
+export const satelliteDistance = (distanceKm: number, parent: PlanetData, mode: ScaleMode): number => {
+  if (mode === 'true') return (distanceKm / KM_PER_AU) * TRUE_UNITS_PER_AU;
+  return parent.radius * (1 + 0.5 * Math.log(distanceKm / parent.radiusKm));
+};
+
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+
+/** Evaluates a scale function in both modes of a blend and interpolates. */
+export const blendScale = (blend: ScaleBlend, fn: (mode: ScaleMode) => number): number => {
+  if (blend.progress >= 1) return fn(blend.to);
+  return lerp(fn(blend.from), fn(blend.to), blend.progress);
+};
@@ -0,0 +1,38 @@
+/**
+ * Scores `text` against `query` as a case-insensitive subsequence match, so
+ * "jpt" finds "Jupiter". Runs of consecutive characters, word starts and
+ * prefixes score higher. Returns null when the query doesn't match.
+ */
+export const fuzzyScore = (query: string, text: string): number | null => {
+  const q = query.trim().toLowerCase();
+  const t = text.toLowerCase();
+  if (!q) return 0;
+
+  let score = t.startsWith(q) ? 10 : 0;
+  let from = 0;
+  let run = 0;
+  for (const char of q) {
+    const index = t.indexOf(char, from);
+    if (index === -1) return null;
+    run = index === from && from > 0 ? run + 1 : 1;
+    const wordStart = index === 0 || /[\s\-_(]/.test(t[index - 1]);
+    score += run * 2 + (wordStart ? 3 : 0);
+    from = index + 1;
+  }
+  // Among equal matches, prefer the shorter text
+  return score - t.length * 0.01;
+};
+
+/**
+ * Filters `items` to those matching `query` on any of their keys, best match
+ * first. Ties keep their original order, so an empty query lists everything.
+ */
+export const fuzzySearch = <T>(items: T[], query: string, keys: (item: T) => string[]): T[] =>
+  items
+    .map((item, index) => {
+      const scores = keys(item).map(key => fuzzyScore(query, key)).filter((s): s is number => s !== null);
+      return { item, index, score: scores.length > 0 ? Math.max(...scores) : null };
+    })
+    .filter((result): result is { item: T; index: number; score: number } => result.score !== null)
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .map(result => result.item);
@@ -0,0 +1,101 @@
+import { GRID_EXTENT_AU } from './scale';
+
+export type LayerId =
+  | 'starfield'
+  | 'nebulae'
+  | 'asteroidBelt'
+  | 'kuiperBelt'
+  | 'sunEffects'
+  | 'magneticField'
+  | 'grid'
+  | 'orbits'
+  | 'aurora';
+
+export const LAYERS: { id: LayerId; label: string }[] = [
+  { id: 'starfield', label: 'Star fields' },
+  { id: 'nebulae', label: 'Nebulae' },
+  { id: 'asteroidBelt', label: 'Asteroid belt' },
+  { id: 'kuiperBelt', label: 'Kuiper belt' },
+  { id: 'sunEffects', label: 'Sun glow & halo' },
+  { id: 'magneticField', label: 'Magnetic field' },
+  { id: 'grid', label: 'Polar grid' },
+  { id: 'orbits', label: 'Orbit lines' },
+  { id: 'aurora', label: 'Earth aurora' },
+];
+
+/** Rendering quality; 'auto' steps between the others to hold the frame rate. */
+export type QualityPreset = 'low' | 'medium' | 'high' | 'auto';
+
+export const QUALITY_PRESETS: { id: QualityPreset; label: string; title: string }[] = [
+  { id: 'low', label: 'LOW', title: 'Fewest particles and polygons, no high-DPI rendering' },
+  { id: 'medium', label: 'MED', title: 'Balanced detail' },
+  { id: 'high', label: 'HIGH', title: 'Full detail, sharp shadows and high-DPI rendering' },
+  { id: 'auto', label: 'AUTO', title: 'Adjust detail to keep the frame rate smooth' },
+];
+
+export interface SceneSettings {
+  layers: Record<LayerId, boolean>;
+  orbitOpacity: number; // Resting opacity of unselected orbit lines, 0–1
+  starDensity: number; // Fraction of the star fields drawn, 0.1–1
+  gridRadiusAu: number; // Extent of the polar grid
+  allLabels: boolean; // Label every body, not just the hovered and selected ones
+  quality: QualityPreset;
+  showStats: boolean; // Frame rate and draw call overlay
+}
+
+export const SETTING_RANGES = {
+  orbitOpacity: { min: 0.05, max: 1, step: 0.05 },
+  starDensity: { min: 0.1, max: 1, step: 0.05 },
+  gridRadiusAu: { min: 5, max: 100, step: 5 },
+} as const;
+
+export const DEFAULT_SETTINGS: SceneSettings = {
+  layers: Object.fromEntries(LAYERS.map(l => [l.id, true])) as Record<LayerId, boolean>,
+  orbitOpacity: 0.25,
+  starDensity: 1,
+  gridRadiusAu: GRID_EXTENT_AU,
+  allLabels: false,
+  quality: 'auto',
+  showStats: false,
+};
+
+const STORAGE_KEY = 'helios.settings';
+
+const clamp = (value: unknown, { min, max }: { min: number; max: number }, fallback: number) =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.min(max, Math.max(min, value)) : fallback;
+
+/**
+ * Merges untrusted stored settings over the defaults, so settings written by
+ * an older version, or edited by hand, still load.
+ */
+export const sanitizeSettings = (value: unknown): SceneSettings => {
+  const stored = (typeof value === 'object' && value !== null ? value : {}) as Partial<Record<keyof SceneSettings, unknown>>;
+  const layers = (typeof stored.layers === 'object' && stored.layers !== null ? stored.layers : {}) as Record<string, unknown>;
+  return {
+    layers: Object.fromEntries(LAYERS.map(({ id }) => [id, typeof layers[id] === 'boolean' ? layers[id] : DEFAULT_SETTINGS.layers[id]])) as Record<LayerId, boolean>,
+    orbitOpacity: clamp(stored.orbitOpacity, SETTING_RANGES.orbitOpacity, DEFAULT_SETTINGS.orbitOpacity),
+    starDensity: clamp(stored.starDensity, SETTING_RANGES.starDensity, DEFAULT_SETTINGS.starDensity),
+    gridRadiusAu: clamp(stored.gridRadiusAu, SETTING_RANGES.gridRadiusAu, DEFAULT_SETTINGS.gridRadiusAu),
+    allLabels: typeof stored.allLabels === 'boolean' ? stored.allLabels : DEFAULT_SETTINGS.allLabels,
+    quality: QUALITY_PRESETS.some(p => p.id === stored.quality) ? stored.quality as QualityPreset : DEFAULT_SETTINGS.quality,
+    showStats: typeof stored.showStats === 'boolean' ? stored.showStats : DEFAULT_SETTINGS.showStats,
+  };
+};
+
+export const loadSettings = (): SceneSettings => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return sanitizeSettings(raw ? JSON.parse(raw) : undefined);
+  } catch {
+    // Storage unavailable (private mode) or corrupt JSON
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export const saveSettings = (settings: SceneSettings): void => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch {
+    // Quota exceeded or storage disabled; settings just won't persist
+  }
+};
@@ -0,0 +1,105 @@
+export const MS_PER_DAY = 86_400_000;
+// J2000.0 epoch: 2000-01-01 12:00 TT, treated as UTC at this precision
+export const J2000_MS = Date.UTC(2000, 0, 1, 12, 0, 0);
+
+export interface TimeRate {
+  label: string;
+  daysPerSecond: number;
+}
+
+export const TIME_RATES: TimeRate[] = [
+  { label: 'Real time', daysPerSecond: 1 / 86_400 },
+  { label: '1 hour/s', daysPerSecond: 1 / 24 },
+  { label: '1 day/s', daysPerSecond: 1 },
+  { label: '1 week/s', daysPerSecond: 7 },
+  { label: '1 month/s', daysPerSecond: 30.4375 },
+  { label: '1 year/s', daysPerSecond: 365.25 },
+];
+
+export const DEFAULT_TIME_RATE = TIME_RATES[3];
+
+type ClockListener = (clock: SimulationClock) => void;
+
+/**
+ * Central simulation time. The render loop feeds it real elapsed seconds via
+ * `tick`, and every animated body derives its state from `daysSinceJ2000`.
+ */
+export class SimulationClock {
+  private timeMs: number;
+  private rate: number;
+  private paused = false;
+  private reversed = false;
+  private listeners = new Set<ClockListener>();
+
+  constructor(start: Date = new Date(), daysPerSecond: number = DEFAULT_TIME_RATE.daysPerSecond) {
+    this.timeMs = start.getTime();
+    this.rate = daysPerSecond;
+  }
+
+  get date(): Date {
+    return new Date(this.timeMs);
+  }
+
+  get daysSinceJ2000(): number {
+    return (this.timeMs - J2000_MS) / MS_PER_DAY;
+  }
+
+  get daysPerSecond(): number {
+    return this.rate;
+  }
+
+  get isPaused(): boolean {
+    return this.paused;
+  }
+
+  get isReversed(): boolean {
+    return this.reversed;
+  }
+
+  /** Advances by `realSeconds` of wall-clock time and returns the simulated days elapsed. */
+  tick(realSeconds: number): number {
+    if (this.paused || realSeconds <= 0) return 0;
+    const days = realSeconds * this.rate * (this.reversed ? -1 : 1);
+    this.timeMs += days * MS_PER_DAY;
+    this.notify();
+    return days;
+  }
+
+  /** Jumps by a fixed number of days, regardless of pause state or direction. */
+  step(days: number) {
+    this.timeMs += days * MS_PER_DAY;
+    this.notify();
+  }
+
+  setDate(date: Date) {
+    if (Number.isNaN(date.getTime())) return;
+    this.timeMs = date.getTime();
+    this.notify();
+  }
+
+  setRate(daysPerSecond: number) {
+    this.rate = Math.abs(daysPerSecond);
+    this.notify();
+  }
+
+  setPaused(paused: boolean) {
+    this.paused = paused;
+    this.notify();
+  }
+
+  setReversed(reversed: boolean) {
+    this.reversed = reversed;
+    this.notify();
+  }
+
+  subscribe(listener: ClockListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify() {
+    this.listeners.forEach(listener => listener(this));
+  }
+}
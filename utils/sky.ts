@@ -0,0 +1,51 @@
+import { PlanetData, Vector3 } from '../types';
+import { PLANETS } from '../constants';
+import { heliocentricPosition } from './ephemeris';
+import { satellitePosition } from './kepler';
+import { KM_PER_AU } from './scale';
+
+// The sky as seen from a body, at true scale whatever the scene is showing.
+
+/** Heliocentric ecliptic position in km; moons add their offset to the parent's. */
+export const positionKm = (body: PlanetData, days: number, bodies: PlanetData[] = PLANETS): Vector3 => {
+  if (body.satelliteOrbit && body.parent) {
+    const parent = bodies.find(p => p.id === body.parent);
+    const base = parent ? positionKm(parent, days, bodies) : { x: 0, y: 0, z: 0 };
+    const offset = satellitePosition(body.satelliteOrbit, days);
+    return { x: base.x + offset.x, y: base.y + offset.y, z: base.z + offset.z };
+  }
+  if (!body.orbit) return { x: 0, y: 0, z: 0 }; // The Sun
+  const au = heliocentricPosition(body.orbit, days);
+  return { x: au.x * KM_PER_AU, y: au.y * KM_PER_AU, z: au.z * KM_PER_AU };
+};
+
+/** Apparent diameter in degrees of a sphere of `radiusKm` seen from `distanceKm`. */
+export const angularDiameterDeg = (radiusKm: number, distanceKm: number): number =>
+  distanceKm <= radiusKm ? 180 : 2 * Math.asin(radiusKm / distanceKm) * 180 / Math.PI;
+
+export interface SkyObject {
+  body: PlanetData;
+  distanceKm: number;
+  angularDiameterDeg: number;
+}
+
+/** Every other body as seen from `observer`, largest in the sky first. */
+export const skyFrom = (observer: PlanetData, days: number, bodies: PlanetData[] = PLANETS): SkyObject[] => {
+  const here = positionKm(observer, days, bodies);
+  return bodies
+    .filter(body => body.id !== observer.id)
+    .map(body => {
+      const there = positionKm(body, days, bodies);
+      const distanceKm = Math.hypot(there.x - here.x, there.y - here.y, there.z - here.z);
+      return { body, distanceKm, angularDiameterDeg: angularDiameterDeg(body.radiusKm, distanceKm) };
+    })
+    .sort((a, b) => b.angularDiameterDeg - a.angularDiameterDeg);
+};
+
+/** Degrees, arcminutes or arcseconds, whichever keeps the number readable: "0.53°", "31.6′", "12.3″". */
+export const formatAngularSize = (degrees: number, locale?: string): string => {
+  const number = (v: number) => new Intl.NumberFormat(locale, { maximumSignificantDigits: 3 }).format(v);
+  if (degrees >= 1) return `${number(degrees)}°`;
+  if (degrees * 60 >= 1) return `${number(degrees * 60)}′`;
+  return `${number(degrees * 3600)}″`;
+};
@@ -0,0 +1,107 @@
+import { PLANETS } from '../constants';
+import { Vector3 } from '../types';
+import { Validator } from './catalog';
+import { LAYERS, LayerId } from './settings';
+import grandTour from '../data/tours/grand-tour.json';
+import giantMoons from '../data/tours/giant-moons.json';
+
+// Guided tours: JSON lessons that step the camera from body to body with a
+// caption, optionally switching decorative layers on or off.
+
+export interface TourStep {
+  body: string | null; // Body to focus; null for the whole-system overview
+  cameraOffset?: Vector3; // From the body, in multiples of its radius; default framing otherwise
+  duration: number; // Seconds before the player moves on
+  title?: string;
+  caption: string;
+  layers?: Partial<Record<LayerId, boolean>>; // Overrides the viewer's settings from this step on
+}
+
+export interface Tour {
+  version: 1;
+  title: string;
+  description?: string;
+  steps: TourStep[];
+}
+
+export class TourValidationError extends Error {
+  readonly issues: string[];
+
+  constructor(issues: string[]) {
+    super(`Invalid tour (${issues.length} issue${issues.length === 1 ? '' : 's'}):\n${issues.map(i => `  - ${i}`).join('\n')}`);
+    this.name = 'TourValidationError';
+    this.issues = issues;
+  }
+}
+
+const LAYER_IDS = LAYERS.map(l => l.id);
+
+const validateStep = (v: Validator, value: unknown, path: string, knownBodies: string[]): void => {
+  const step = v.object(value, path);
+  if (!step) return;
+
+  if (step.body !== null) {
+    const body = v.string(step, 'body', path);
+    if (body && !knownBodies.includes(body)) v.fail(`${path}.body`, `unknown body id "${body}"`);
+  }
+  if (step.cameraOffset !== undefined) {
+    const offset = v.object(step.cameraOffset, `${path}.cameraOffset`);
+    if (offset) ['x', 'y', 'z'].forEach(axis => v.number(offset, axis, `${path}.cameraOffset`));
+  }
+  v.number(step, 'duration', path, { min: 1 });
+  v.string(step, 'title', path, { optional: true });
+  v.string(step, 'caption', path);
+
+  if (step.layers !== undefined) {
+    const layers = v.object(step.layers, `${path}.layers`);
+    if (layers) {
+      Object.entries(layers).forEach(([id, visible]) => {
+        if (!LAYER_IDS.includes(id as LayerId)) v.fail(`${path}.layers.${id}`, `unknown layer; expected one of ${LAYER_IDS.join(', ')}`);
+        else if (typeof visible !== 'boolean') v.fail(`${path}.layers.${id}`, `expected true or false, got ${JSON.stringify(visible)}`);
+      });
+    }
+  }
+};
+
+/** Validates a parsed tour document against the known body ids. Throws TourValidationError. */
+export const parseTour = (document: unknown, knownBodies: string[]): Tour => {
+  const v = new Validator();
+  const root = v.object(document, 'tour');
+  if (root) {
+    if (root.version !== 1) v.fail('tour.version', `expected 1, got ${JSON.stringify(root.version)}`);
+    v.string(root, 'title', 'tour');
+    v.string(root, 'description', 'tour', { optional: true });
+    const steps = v.array(root.steps, 'tour.steps');
+    if (steps?.length === 0) v.fail('tour.steps', 'expected at least one step');
+    steps?.forEach((step, i) => validateStep(v, step, `tour.steps[${i}]`, knownBodies));
+  }
+
+  if (v.issues.length > 0) throw new TourValidationError(v.issues);
+  return document as Tour;
+};
+
+const parseTourText = (text: string, knownBodies: string[]): Tour => {
+  let document: unknown;
+  try {
+    document = JSON.parse(text);
+  } catch (error) {
+    throw new TourValidationError([`not valid JSON (${(error as Error).message})`]);
+  }
+  return parseTour(document, knownBodies);
+};
+
+export const loadTourFromFile = async (file: File, knownBodies: string[]): Promise<Tour> =>
+  parseTourText(await file.text(), knownBodies);
+
+export const loadTourFromUrl = async (url: string, knownBodies: string[]): Promise<Tour> => {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Could not load tour from ${url} (HTTP ${response.status})`);
+  return parseTourText(await response.text(), knownBodies);
+};
+
+/** Layer overrides in effect at a step: every earlier step's, later ones winning. */
+export const tourLayersAt = (tour: Tour, index: number): Partial<Record<LayerId, boolean>> =>
+  Object.assign({}, ...tour.steps.slice(0, index + 1).map(step => step.layers));
+
+/** Tours shipped with the app, validated like the catalog when the module loads. */
+export const BUNDLED_TOURS: Tour[] = [grandTour, giantMoons].map(tour => parseTour(tour, PLANETS.map(p => p.id)));
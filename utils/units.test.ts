@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import { formatQuantity } from './units';
+
+describe('formatQuantity for durations', () => {
+  it.each([
+    [45 * 60, '45 min'],
+    [10 * 3600, '10 h'],
+    [24 * 3600 + 37 * 60, '24 h 37 min'],
+    // 1 h 59.6 min rounds up into the next hour
+    [3600 + 59.6 * 60, '2 h'],
+    [59.7 * 60, '1 h'],
+    [5 * 3600 + 0.4 * 60, '5 h'],
+  ])('formats %d s as %s', (seconds, expected) => {
+    expect(formatQuantity(seconds, 'duration', 'metric', 'en-US')).toBe(expected);
+  });
+
+  it('switches to days and years for longer spans', () => {
+    expect(formatQuantity(58.65 * 86400, 'duration', 'metric', 'en-US')).toBe('58.65 d');
+    expect(formatQuantity(11.86 * 365.25 * 86400, 'duration', 'metric', 'en-US')).toBe('11.86 yr');
+  });
+});
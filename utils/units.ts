@@ -0,0 +1,170 @@
+// Display formatting for physical quantities. The catalog stores fixed units
+// (km, kg, K, m/s², seconds, days, degrees); everything the viewer reads or types goes
+// through here, in their chosen unit system and their locale's number format.
+
+export type UnitSystem = 'metric' | 'imperial' | 'scientific';
+
+export const UNIT_SYSTEMS: { id: UnitSystem; label: string }[] = [
+  { id: 'metric', label: 'METRIC' },
+  { id: 'imperial', label: 'IMPERIAL' },
+  { id: 'scientific', label: 'SCI' },
+];
+
+/** What a value measures, and so which stored unit it is in. */
+export type QuantityKind =
+  | 'length' // km
+  | 'height' // m, for everyday distances
+  | 'mass' // kg
+  | 'temperature' // K
+  | 'acceleration' // m/s²
+  | 'velocity' // km/s
+  | 'density' // kg/m³
+  | 'duration' // s
+  | 'angle' // degrees
+  | 'ratio'; // dimensionless
+
+interface Conversion {
+  unit: string;
+  convert: (value: number) => number;
+  invert: (value: number) => number;
+}
+
+const same = (unit: string): Conversion => ({ unit, convert: v => v, invert: v => v });
+const scaled = (unit: string, factor: number): Conversion => ({ unit, convert: v => v * factor, invert: v => v / factor });
+
+// Durations are spelled out separately (h/min, days, years) outside scientific mode
+export type ConvertibleKind = Exclude<QuantityKind, 'duration'>;
+
+const CONVERSIONS: Record<UnitSystem, Record<ConvertibleKind, Conversion>> = {
+  metric: {
+    length: same('km'),
+    height: same('m'),
+    mass: same('kg'),
+    temperature: { unit: '°C', convert: k => k - 273.15, invert: c => c + 273.15 },
+    acceleration: same('m/s²'),
+    velocity: same('km/s'),
+    density: scaled('g/cm³', 1e-3),
+    angle: same('°'),
+    ratio: same(''),
+  },
+  imperial: {
+    length: scaled('mi', 1 / 1.609344),
+    height: scaled('ft', 3.2808399),
+    mass: scaled('lb', 2.20462262),
+    temperature: { unit: '°F', convert: k => (k - 273.15) * 9 / 5 + 32, invert: f => (f - 32) * 5 / 9 + 273.15 },
+    acceleration: scaled('ft/s²', 3.2808399),
+    velocity: scaled('mi/s', 1 / 1.609344),
+    density: scaled('lb/ft³', 0.0624279606),
+    angle: same('°'),
+    ratio: same(''),
+  },
+  scientific: {
+    length: scaled('m', 1e3),
+    height: same('m'),
+    mass: same('kg'),
+    temperature: same('K'),
+    acceleration: same('m/s²'),
+    velocity: scaled('m/s', 1e3),
+    density: same('kg/m³'),
+    angle: same('°'),
+    ratio: same(''),
+  },
+};
+
+const SUPERSCRIPTS = '⁰¹²³⁴⁵⁶⁷⁸⁹';
+const superscript = (n: number) =>
+  (n < 0 ? '⁻' : '') + String(Math.abs(n)).split('').map(d => SUPERSCRIPTS[Number(d)]).join('');
+
+/** "6.371 × 10⁶", with the mantissa in the locale's format. */
+const formatScientific = (value: number, locale?: string): string => {
+  if (value === 0) return new Intl.NumberFormat(locale).format(0);
+  let exponent = Math.floor(Math.log10(Math.abs(value)));
+  let mantissa = Number((value / Math.pow(10, exponent)).toPrecision(4));
+  // Rounding can carry the mantissa up to 10
+  if (Math.abs(mantissa) >= 10) {
+    mantissa /= 10;
+    exponent += 1;
+  }
+  const digits = new Intl.NumberFormat(locale, { maximumFractionDigits: 3 }).format(mantissa);
+  return exponent === 0 ? digits : `${digits} × 10${superscript(exponent)}`;
+};
+
+/**
+ * Formats a bare number for the locale: four significant digits, switching to
+ * powers of ten for very large or small magnitudes, or always in scientific mode.
+ */
+export const formatNumber = (value: number, system: UnitSystem = 'metric', locale?: string): string => {
+  const magnitude = Math.abs(value);
+  if (system === 'scientific' || (magnitude !== 0 && (magnitude >= 1e9 || magnitude < 1e-3))) {
+    return formatScientific(value, locale);
+  }
+  return new Intl.NumberFormat(locale, { maximumSignificantDigits: 4 }).format(value);
+};
+
+const MINUTE = 60;
+const HOUR = 3600;
+const DAY = 86400;
+const YEAR = 365.25 * DAY;
+
+/** "24 h 37 min", "58.65 d" or "11.86 yr", whichever reads best. */
+const formatDuration = (seconds: number, locale?: string): string => {
+  const number = (v: number) => new Intl.NumberFormat(locale, { maximumSignificantDigits: 4 }).format(v);
+  if (seconds < 2 * DAY) {
+    // Round first, so 1 h 59.6 min carries into 2 h rather than reading 1 h 60 min
+    const totalMinutes = Math.round(seconds / MINUTE);
+    const hours = Math.floor(totalMinutes / 60);
+    const minutes = totalMinutes - hours * 60;
+    if (hours === 0) return `${number(minutes)} min`;
+    return minutes === 0 ? `${number(hours)} h` : `${number(hours)} h ${number(minutes)} min`;
+  }
+  if (seconds < 2 * YEAR) return `${number(seconds / DAY)} d`;
+  return `${number(seconds / YEAR)} yr`;
+};
+
+/** A stored value in the display unit of `system`, e.g. for charting. */
+export const convertQuantity = (value: number, kind: ConvertibleKind, system: UnitSystem): { value: number; unit: string } => {
+  const { unit, convert } = CONVERSIONS[system][kind];
+  return { value: convert(value), unit };
+};
+
+/** Reads a value the viewer typed in `system`'s unit back into the stored unit. */
+export const parseQuantity = (value: number, kind: ConvertibleKind, system: UnitSystem): number =>
+  CONVERSIONS[system][kind].invert(value);
+
+/** Formats a value stored in its kind's catalog unit; undefined reads as a dash. */
+export const formatQuantity = (value: number | undefined, kind: QuantityKind, system: UnitSystem, locale?: string): string => {
+  if (value === undefined || !Number.isFinite(value)) return '–';
+  if (kind === 'duration') {
+    return system === 'scientific' ? `${formatScientific(value, locale)} s` : formatDuration(value, locale);
+  }
+  const { unit, convert } = CONVERSIONS[system][kind];
+  // Angles and ratios are small plain numbers in every system
+  const plain = kind === 'angle' || kind === 'ratio';
+  const number = formatNumber(convert(value), plain ? 'metric' : system, locale);
+  if (!unit) return number;
+  return unit === '°' ? `${number}°` : `${number} ${unit}`;
+};
+
+const STORAGE_KEY = 'helios.units';
+
+// Without a stored choice, US English readers start in imperial units
+const defaultUnitSystem = (): UnitSystem =>
+  typeof navigator !== 'undefined' && navigator.language === 'en-US' ? 'imperial' : 'metric';
+
+export const loadUnitSystem = (): UnitSystem => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return UNIT_SYSTEMS.some(s => s.id === stored) ? stored as UnitSystem : defaultUnitSystem();
+  } catch {
+    // Storage unavailable (private mode)
+    return defaultUnitSystem();
+  }
+};
+
+export const saveUnitSystem = (system: UnitSystem): void => {
+  try {
+    localStorage.setItem(STORAGE_KEY, system);
+  } catch {
+    // Quota exceeded or storage disabled; the choice just won't persist
+  }
+};
@@ -0,0 +1,56 @@
+import { CameraView, Vector3 } from '../types';
+import { LAYERS, LayerId } from './settings';
+
+// Deep links: the shareable part of the view, kept in the URL hash as
+// #body=jupiter&cam=px,py,pz,tx,ty,tz&hide=nebulae,grid
+
+export interface ViewState {
+  body: string | null;
+  camera?: CameraView;
+  hiddenLayers?: LayerId[]; // Undefined when the link doesn't mention layers
+}
+
+// Six significant digits keep true-scale close-ups intact without bloating the URL
+const formatNumber = (n: number) => String(Number(n.toPrecision(6)));
+
+const formatVector = ({ x, y, z }: Vector3) => [x, y, z].map(formatNumber).join(',');
+
+export const encodeViewState = ({ body, camera, hiddenLayers }: ViewState): string => {
+  const params = new URLSearchParams();
+  if (body) params.set('body', body);
+  if (camera) params.set('cam', `${formatVector(camera.position)},${formatVector(camera.target)}`);
+  // An empty list still pins every layer on, except in a link to the default view
+  if (hiddenLayers && (hiddenLayers.length > 0 || body || camera)) params.set('hide', hiddenLayers.join(','));
+  if (params.toString() === '') return '';
+  // Commas are safe in a fragment and far easier to read than %2C
+  return `#${params.toString().replace(/%2C/g, ',')}`;
+};
+
+/** Reads a hash written by encodeViewState, ignoring anything malformed. */
+export const parseViewState = (hash: string, knownBodies: string[]): ViewState => {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  const state: ViewState = { body: null };
+
+  const body = params.get('body');
+  if (body && knownBodies.includes(body)) state.body = body;
+
+  const cam = params.get('cam')?.split(',').map(Number);
+  if (cam && cam.length === 6 && cam.every(Number.isFinite)) {
+    const [px, py, pz, tx, ty, tz] = cam;
+    state.camera = { position: { x: px, y: py, z: pz }, target: { x: tx, y: ty, z: tz } };
+  }
+
+  const hide = params.get('hide');
+  if (hide !== null) {
+    const ids = LAYERS.map(l => l.id);
+    state.hiddenLayers = hide.split(',').filter((id): id is LayerId => ids.includes(id as LayerId));
+  }
+
+  return state;
+};
+
+export const hiddenLayersOf = (layers: Record<LayerId, boolean>): LayerId[] =>
+  LAYERS.filter(l => !layers[l.id]).map(l => l.id);
+
+export const layersFromHidden = (hidden: LayerId[]): Record<LayerId, boolean> =>
+  Object.fromEntries(LAYERS.map(l => [l.id, !hidden.includes(l.id)])) as Record<LayerId, boolean>;